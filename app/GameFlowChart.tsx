@@ -0,0 +1,109 @@
+import type { GameTimeline } from "@/lib/play-by-play";
+import type { FlowPoint } from "@/lib/game-flow";
+import { buildGameFlow } from "@/lib/game-flow";
+
+interface GameFlowChartProps {
+  timeline: GameTimeline;
+  teamAbbrev: string;
+  color: string;
+}
+
+const WIDTH = 600;
+const PAD_X = 24;
+const ATTEMPTS_TOP = 16;
+const ATTEMPTS_BOTTOM = 170;
+const SCORE_TOP = 190;
+const SCORE_BOTTOM = 250;
+const OPPONENT_COLOR = "#9CA3AF";
+
+// Rendered entirely on the server, the page ships plain SVG
+export function GameFlowChart({ timeline, teamAbbrev, color }: GameFlowChartProps) {
+  const flow = buildGameFlow(timeline, teamAbbrev);
+  if (flow.points.length <= 2) return null;
+
+  const x = (seconds: number) => PAD_X + (seconds / flow.endSeconds) * (WIDTH - PAD_X * 2);
+
+  const maxAttempts = Math.max(1, ...flow.points.map((p) => Math.max(p.teamAttempts, p.opponentAttempts)));
+  const yAttempts = (n: number) => ATTEMPTS_BOTTOM - (n / maxAttempts) * (ATTEMPTS_BOTTOM - ATTEMPTS_TOP);
+
+  const maxDiff = Math.max(2, ...flow.points.map((p) => Math.abs(p.scoreDiff)));
+  const scoreMid = (SCORE_TOP + SCORE_BOTTOM) / 2;
+  const yScore = (diff: number) => scoreMid - (diff / maxDiff) * ((SCORE_BOTTOM - SCORE_TOP) / 2);
+
+  // Step lines: hold each value until the next event
+  const stepPath = (pick: (p: FlowPoint) => number, y: (n: number) => number) =>
+    flow.points
+      .map((p, i) => {
+        const px = x(p.seconds).toFixed(1);
+        const py = y(pick(p)).toFixed(1);
+        if (i === 0) return `M ${px} ${py}`;
+        const prevY = y(pick(flow.points[i - 1])).toFixed(1);
+        return `L ${px} ${prevY} L ${px} ${py}`;
+      })
+      .join(" ");
+
+  const scorePath = `${stepPath((p) => p.scoreDiff, yScore)} L ${x(flow.endSeconds).toFixed(1)} ${scoreMid} L ${x(0).toFixed(1)} ${scoreMid} Z`;
+
+  return (
+    <section className="mt-12 w-full max-w-xl" aria-label="Game Flow">
+      <h2 className="text-center text-gray-500 font-medium py-2">Game Flow</h2>
+      <svg viewBox={`0 0 ${WIDTH} 270`} className="w-full h-auto" role="img" aria-label="Cumulative shot attempts and score differential over the game">
+        <defs>
+          <clipPath id="flow-ahead">
+            <rect x={0} y={SCORE_TOP - 2} width={WIDTH} height={scoreMid - SCORE_TOP + 2} />
+          </clipPath>
+          <clipPath id="flow-behind">
+            <rect x={0} y={scoreMid} width={WIDTH} height={SCORE_BOTTOM - scoreMid + 2} />
+          </clipPath>
+        </defs>
+
+        {flow.periodStarts.map((p) => (
+          <g key={p.label}>
+            {p.seconds > 0 && (
+              <line x1={x(p.seconds)} y1={ATTEMPTS_TOP} x2={x(p.seconds)} y2={SCORE_BOTTOM} stroke="#E5E7EB" strokeDasharray="4 3" />
+            )}
+            <text x={x(p.seconds) + 4} y={ATTEMPTS_TOP - 4} fontSize={10} fill="#9CA3AF">{p.label}</text>
+          </g>
+        ))}
+
+        <line x1={PAD_X} y1={ATTEMPTS_BOTTOM} x2={WIDTH - PAD_X} y2={ATTEMPTS_BOTTOM} stroke="#E5E7EB" />
+        <path d={stepPath((p) => p.opponentAttempts, yAttempts)} fill="none" stroke={OPPONENT_COLOR} strokeWidth={2} />
+        <path d={stepPath((p) => p.teamAttempts, yAttempts)} fill="none" stroke={color} strokeWidth={2} />
+
+        <line x1={PAD_X} y1={scoreMid} x2={WIDTH - PAD_X} y2={scoreMid} stroke="#D1D5DB" />
+        <path d={scorePath} fill="#16A34A" fillOpacity={0.35} clipPath="url(#flow-ahead)" />
+        <path d={scorePath} fill="#DC2626" fillOpacity={0.35} clipPath="url(#flow-behind)" />
+        <text x={PAD_X} y={SCORE_TOP - 4} fontSize={10} fill="#9CA3AF">Score differential</text>
+
+        {flow.annotations.map((a, idx) =>
+          a.type === "goal" ? (
+            <g key={idx}>
+              <line x1={x(a.seconds)} y1={ATTEMPTS_TOP} x2={x(a.seconds)} y2={SCORE_BOTTOM} stroke={a.ours ? color : OPPONENT_COLOR} strokeOpacity={0.5} />
+              <circle cx={x(a.seconds)} cy={ATTEMPTS_TOP + 4} r={4} fill={a.ours ? color : OPPONENT_COLOR}>
+                <title>{a.label}</title>
+              </circle>
+            </g>
+          ) : (
+            <path
+              key={idx}
+              d={`M ${x(a.seconds) - 4} ${ATTEMPTS_BOTTOM + 10} L ${x(a.seconds) + 4} ${ATTEMPTS_BOTTOM + 10} L ${x(a.seconds)} ${ATTEMPTS_BOTTOM + 3} Z`}
+              fill={a.ours ? color : OPPONENT_COLOR}
+            >
+              <title>{a.label}</title>
+            </path>
+          )
+        )}
+      </svg>
+      <p className="mt-2 text-center text-sm text-gray-500">
+        Shot attempts:{" "}
+        <span style={{ color }} className="font-semibold">{flow.teamAbbrev}</span>{" "}
+        {flow.points[flow.points.length - 1].teamAttempts} &middot;{" "}
+        <span className="font-semibold text-gray-400">{flow.opponentAbbrev}</span>{" "}
+        {flow.points[flow.points.length - 1].opponentAttempts}
+      </p>
+      <p className="text-center text-xs text-gray-400">
+        Dots mark goals, triangles mark penalties.
+      </p>
+    </section>
+  );
+}
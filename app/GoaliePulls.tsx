@@ -0,0 +1,56 @@
+import type { GameTimeline } from "@/lib/play-by-play";
+import { describePullScore, isExtraAttackerPull, isLateTrailingPull, pullTimeLeft } from "@/lib/goalie-pulls";
+import { formatSeconds } from "@/lib/special-teams";
+
+interface GoaliePullsProps {
+  timeline: GameTimeline;
+  teamAbbrev: string;
+}
+
+export function GoaliePulls({ timeline, teamAbbrev }: GoaliePullsProps) {
+  // Timelines stored before pulls were tracked don't have them
+  const pulls = (timeline.goaliePulls ?? []).filter(isExtraAttackerPull);
+  if (pulls.length === 0) return null;
+
+  return (
+    <details className="mt-12 w-full max-w-xl">
+      <summary className="cursor-pointer text-center text-gray-500 hover:text-gray-700 font-medium py-2">
+        &nbsp;Goalie Pulls
+      </summary>
+      <div className="mt-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+              <th className="py-2 text-left">Team</th>
+              <th className="py-2 text-right">Pulled</th>
+              <th className="py-2 text-right">Score</th>
+              <th className="py-2 text-right">Time</th>
+              <th className="py-2 text-right">GF</th>
+              <th className="py-2 text-right">GA</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {pulls.map((pull) => (
+              <tr key={`${pull.side}-${pull.startSeconds}`} className={pull.teamAbbrev === teamAbbrev ? "font-semibold" : ""}>
+                <td className="py-2 text-gray-500">{pull.teamAbbrev}</td>
+                <td className="py-2 text-right font-mono text-gray-900">
+                  {pull.period} {pullTimeLeft(pull)} left
+                </td>
+                <td className="py-2 text-right text-gray-900">
+                  {describePullScore(pull.scoreDiff)}
+                  {isLateTrailingPull(pull) && <span className="text-gray-400" title="Trailing in the third">*</span>}
+                </td>
+                <td className="py-2 text-right font-mono text-gray-900">{formatSeconds(pull.endSeconds - pull.startSeconds)}</td>
+                <td className="py-2 text-right font-mono text-gray-900">{pull.goalsFor}</td>
+                <td className="py-2 text-right font-mono text-gray-900">{pull.goalsAgainst}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {pulls.some(isLateTrailingPull) && (
+          <p className="mt-2 text-xs text-gray-400">* Trailing in the third, the usual late pull</p>
+        )}
+      </div>
+    </details>
+  );
+}
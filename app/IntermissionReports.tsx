@@ -0,0 +1,30 @@
+import type { IntermissionReport } from "@/lib/nhl-types";
+
+interface IntermissionReportsProps {
+  reports: IntermissionReport[];
+  teamName: string;
+  opponent: string;
+}
+
+// Plain markup so the live score can render it client-side too
+export function IntermissionReports({ reports, teamName, opponent }: IntermissionReportsProps) {
+  if (reports.length === 0) return null;
+
+  return (
+    <section className="mt-10 w-full max-w-xl" aria-label="Intermission Reports">
+      <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-4 text-center">
+        Intermission Reports
+      </h2>
+      <ol className="space-y-6">
+        {reports.map((r) => (
+          <li key={r.period}>
+            <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+              After {r.periodLabel}: {teamName} {r.teamScore}, {opponent} {r.opponentScore}
+            </p>
+            <p className="text-gray-600 text-base leading-relaxed mt-1 text-justify">{r.report}</p>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
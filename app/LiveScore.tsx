@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ReactNode } from "react";
+import type { LiveGameState, LiveResponse } from "@/lib/live";
+import { IntermissionReports } from "./IntermissionReports";
+
+const POLL_INTERVAL_MS = 30_000;
+
+interface LiveScoreProps {
+  // The game the static page was built for
+  shownGameId: number;
+  teamName: string;
+  lossTagline: string;
+  winTagline: string;
+  // The built result, shown until there's something newer
+  children: ReactNode;
+}
+
+function describeClock(game: LiveGameState): string | null {
+  if (!game.periodLabel) return null;
+  if (game.inIntermission) return `${game.periodLabel} intermission`;
+  return game.clock ? `${game.periodLabel} ${game.clock}` : game.periodLabel;
+}
+
+export function LiveScore({ shownGameId, teamName, lossTagline, winTagline, children }: LiveScoreProps) {
+  const [game, setGame] = useState<LiveGameState | null>(null);
+
+  useEffect(() => {
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      let final = false;
+      if (!document.hidden) {
+        try {
+          const res = await fetch(`/api/live?gameId=${shownGameId}`);
+          if (res.ok) {
+            const { game: next } = (await res.json()) as LiveResponse;
+            if (stopped) return;
+            setGame(next);
+            final = next?.status === "final";
+          }
+        } catch {
+          // Keep whatever we showed last, the next poll may do better
+        }
+      }
+      // A final score doesn't change, the rebuilt page takes it from here
+      if (!final && !stopped) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+    poll();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [shownGameId]);
+
+  if (!game) return <>{children}</>;
+
+  const scoreline = (
+    <div className="mt-8 text-center">
+      <h2 className="text-2xl sm:text-3xl text-gray-700">
+        {game.isHome ? "vs" : "@"} {game.opponent}
+      </h2>
+      <p className="text-4xl sm:text-5xl font-bold text-gray-900 mt-2">
+        <span aria-label={`${teamName} score`}>{game.teamScore}</span>
+        {" - "}
+        <span aria-label={`${game.opponent} score`}>{game.opponentScore}</span>
+        {game.status === "final" && game.periodLabel && (
+          <span className="text-lg font-normal text-gray-500 ml-2">({game.periodLabel})</span>
+        )}
+      </p>
+    </div>
+  );
+
+  if (game.status === "live") {
+    const clock = describeClock(game);
+    return (
+      <article aria-label={`${teamName} game in progress`} aria-live="polite">
+        <p className="text-[4rem] sm:text-[8rem] md:text-[12rem] font-black leading-none text-center text-gray-400">
+          ONGOING
+        </p>
+        <p className="text-lg sm:text-xl text-gray-500 text-center mt-4">
+          Not yet. Check back after the final horn.
+        </p>
+        {scoreline}
+        {clock && <p className="text-lg text-gray-500 text-center mt-4">{clock}</p>}
+        <IntermissionReports reports={game.intermissions ?? []} teamName={teamName} opponent={game.opponent} />
+      </article>
+    );
+  }
+
+  const didLose = game.teamScore < game.opponentScore;
+  return (
+    <article aria-label={`${teamName} Game Result`} aria-live="polite">
+      <p
+        className={`text-[6rem] sm:text-[12rem] md:text-[20rem] font-black leading-none text-center ${
+          didLose ? "text-red-600" : "text-green-600"
+        }`}
+        aria-label={`${didLose ? `Yes, the ${teamName} lost` : `No, the ${teamName} won`}`}
+      >
+        {didLose ? "YES" : "NO"}
+      </p>
+      <p className="text-lg sm:text-xl text-gray-500 text-center mt-4">
+        {didLose ? lossTagline : winTagline}
+      </p>
+      {scoreline}
+      <p className="text-sm text-gray-400 text-center mt-4">The recap is on its way.</p>
+    </article>
+  );
+}
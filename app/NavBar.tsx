@@ -3,7 +3,12 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 
-export function NavBar() {
+interface NavBarProps {
+  siteName: string;
+  color: string;
+}
+
+export function NavBar({ siteName, color }: NavBarProps) {
   const pathname = usePathname();
 
   let rightLink: { href: string; label: string };
@@ -16,9 +21,12 @@ export function NavBar() {
   }
 
   return (
-    <nav className="bg-[#00205B] text-white px-4 py-3 flex items-center justify-between">
+    <nav
+      className="text-white px-4 py-3 flex items-center justify-between"
+      style={{ backgroundColor: color }}
+    >
       <Link href="/" className="font-bold text-lg hover:text-gray-200">
-        Did the Leafs Lose?
+        {siteName}
       </Link>
       <Link href={rightLink.href} className="text-sm hover:text-gray-200">
         {rightLink.label}
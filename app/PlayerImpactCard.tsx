@@ -0,0 +1,41 @@
+import type { PlayerImpact, PlayerImpactReport } from "@/lib/player-impact";
+import { describeImpact } from "@/lib/player-impact";
+
+interface PlayerImpactCardProps {
+  report: PlayerImpactReport;
+  color: string;
+}
+
+function PlayerLine({ title, player, accent }: { title: string; player: PlayerImpact; accent: string }) {
+  const reasons = describeImpact(player);
+  return (
+    <div className="flex-1 min-w-0 px-4 py-3">
+      <h3 className="text-xs font-semibold uppercase tracking-wider mb-1" style={{ color: accent }}>
+        {title}
+      </h3>
+      <p className="font-semibold text-gray-900">
+        {player.name} <span className="text-sm font-normal text-gray-400">{player.position}</span>
+      </p>
+      <p className="text-sm font-mono text-gray-500">
+        {player.score > 0 ? "+" : ""}{player.score.toFixed(2)} impact
+      </p>
+      {reasons.length > 0 && (
+        <p className="text-sm text-gray-500 mt-1">{reasons.join(", ")}</p>
+      )}
+    </div>
+  );
+}
+
+export function PlayerImpactCard({ report, color }: PlayerImpactCardProps) {
+  if (!report.hero && !report.goat) return null;
+
+  return (
+    <section
+      className="mt-10 w-full max-w-xl flex flex-col sm:flex-row divide-y sm:divide-y-0 sm:divide-x divide-gray-200 border border-gray-200 rounded-lg"
+      aria-label="Hero and Goat"
+    >
+      {report.hero && <PlayerLine title="Hero" player={report.hero} accent={color} />}
+      {report.goat && <PlayerLine title="Goat" player={report.goat} accent="#9ca3af" />}
+    </section>
+  );
+}
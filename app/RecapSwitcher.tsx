@@ -0,0 +1,44 @@
+"use client";
+
+import { useState } from "react";
+import type { RecapOption } from "@/lib/personas";
+
+interface RecapSwitcherProps {
+  recaps: RecapOption[];
+  color: string;
+}
+
+export function RecapSwitcher({ recaps, color }: RecapSwitcherProps) {
+  const [selected, setSelected] = useState(0);
+  const recap = recaps[selected] ?? recaps[0];
+  if (!recap) return null;
+
+  return (
+    <section className="mt-10 w-full max-w-xl" aria-label="Game Review">
+      {recaps.length > 1 && (
+        <div className="flex flex-wrap justify-center gap-2 mb-6" role="tablist" aria-label="Recap voice">
+          {recaps.map((r, idx) => (
+            <button
+              key={r.key}
+              type="button"
+              role="tab"
+              aria-selected={idx === selected}
+              onClick={() => setSelected(idx)}
+              className={`text-sm px-3 py-1 rounded-full border ${
+                idx === selected ? "text-white" : "text-gray-500 border-gray-300 hover:text-gray-700"
+              }`}
+              style={idx === selected ? { backgroundColor: color, borderColor: color } : undefined}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="text-gray-600 text-base sm:text-lg leading-relaxed space-y-4 text-justify" role="tabpanel">
+        {recap.review.split("\n\n").map((paragraph, idx) => (
+          <p key={idx}>{paragraph}</p>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,60 @@
+import type { GameTimeline } from "@/lib/play-by-play";
+import type { ShotAttemptCounts } from "@/lib/shot-attempts";
+import { computeShotAttempts, attemptShare } from "@/lib/shot-attempts";
+
+interface ShotAttemptsTableProps {
+  timeline: GameTimeline;
+  teamAbbrev: string;
+}
+
+export function ShotAttemptsTable({ timeline, teamAbbrev }: ShotAttemptsTableProps) {
+  const stats = computeShotAttempts(timeline);
+  const side = timeline.home.abbrev === teamAbbrev ? "home" : "away";
+  const otherSide = side === "home" ? "away" : "home";
+  const us = stats.game[side];
+  const them = stats.game[otherSide];
+  const opponentAbbrev = timeline[otherSide].abbrev;
+
+  const rows: { label: string; pick: (c: { all: ShotAttemptCounts; fiveOnFive: ShotAttemptCounts }) => number }[] = [
+    { label: "Shots on goal", pick: (c) => c.all.shotsOnGoal },
+    { label: "Missed shots", pick: (c) => c.all.missed },
+    { label: "Shots blocked", pick: (c) => c.all.blocked },
+    { label: "Corsi", pick: (c) => c.all.corsi },
+    { label: "Fenwick", pick: (c) => c.all.fenwick },
+    { label: "5v5 Corsi", pick: (c) => c.fiveOnFive.corsi },
+    { label: "5v5 Fenwick", pick: (c) => c.fiveOnFive.fenwick },
+  ];
+
+  const corsiPct = attemptShare(stats.game, side, "corsi", true);
+
+  return (
+    <details className="mt-12 w-full max-w-xl">
+      <summary className="cursor-pointer text-center text-gray-500 hover:text-gray-700 font-medium py-2">
+        &nbsp;Shot Attempts
+      </summary>
+      <div className="mt-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+              <th className="py-2 text-left"></th>
+              <th className="py-2 text-right">{teamAbbrev}</th>
+              <th className="py-2 text-right">{opponentAbbrev}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.map((row) => (
+              <tr key={row.label}>
+                <td className="py-2 text-gray-500">{row.label}</td>
+                <td className="py-2 text-right font-mono text-gray-900">{row.pick(us)}</td>
+                <td className="py-2 text-right font-mono text-gray-900">{row.pick(them)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-3 text-center text-sm text-gray-500">
+          {teamAbbrev} had {corsiPct.toFixed(1)}% of 5v5 shot attempts
+        </p>
+      </div>
+    </details>
+  );
+}
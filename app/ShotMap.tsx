@@ -0,0 +1,79 @@
+import type { GameTimeline } from "@/lib/play-by-play";
+import { computeExpectedGoals } from "@/lib/expected-goals";
+
+interface ShotMapProps {
+  timeline: GameTimeline;
+  teamAbbrev: string;
+  color: string;
+}
+
+const OPPONENT_COLOR = "#9CA3AF";
+
+// Full rink in NHL API feet: x -100..100, y -42.5..42.5. Our shots attack the
+// right-hand net, the opponent's are mirrored to attack the left.
+export function ShotMap({ timeline, teamAbbrev, color }: ShotMapProps) {
+  const xg = computeExpectedGoals(timeline);
+  const side = timeline.home.abbrev === teamAbbrev ? "home" : "away";
+  const otherSide = side === "home" ? "away" : "home";
+
+  if (xg.shots.length === 0) return null;
+
+  return (
+    <section className="mt-12 w-full max-w-xl" aria-label="Shot Map">
+      <h2 className="text-center text-gray-500 font-medium py-2">Shot Map</h2>
+      <svg viewBox="-101 -43.5 202 87" className="w-full h-auto" role="img" aria-label="Rink diagram of every unblocked shot">
+        <rect x={-100} y={-42.5} width={200} height={85} rx={28} fill="#FFFFFF" stroke="#D1D5DB" strokeWidth={0.6} />
+        <line x1={0} y1={-42.5} x2={0} y2={42.5} stroke="#FCA5A5" strokeWidth={1} />
+        <line x1={-25} y1={-42.5} x2={-25} y2={42.5} stroke="#93C5FD" strokeWidth={1} />
+        <line x1={25} y1={-42.5} x2={25} y2={42.5} stroke="#93C5FD" strokeWidth={1} />
+        <line x1={-89} y1={-37} x2={-89} y2={37} stroke="#FCA5A5" strokeWidth={0.3} />
+        <line x1={89} y1={-37} x2={89} y2={37} stroke="#FCA5A5" strokeWidth={0.3} />
+        <circle cx={0} cy={0} r={15} fill="none" stroke="#93C5FD" strokeWidth={0.3} />
+        {[-69, 69].flatMap((cx) =>
+          [-22, 22].map((cy) => (
+            <circle key={`${cx},${cy}`} cx={cx} cy={cy} r={15} fill="none" stroke="#FCA5A5" strokeWidth={0.3} />
+          ))
+        )}
+        <path d="M 89 -4 A 6 6 0 0 0 89 4" fill="#DBEAFE" stroke="#FCA5A5" strokeWidth={0.3} />
+        <path d="M -89 -4 A 6 6 0 0 1 -89 4" fill="#DBEAFE" stroke="#FCA5A5" strokeWidth={0.3} />
+        <rect x={89} y={-3} width={3.5} height={6} fill="none" stroke="#6B7280" strokeWidth={0.4} />
+        <rect x={-92.5} y={-3} width={3.5} height={6} fill="none" stroke="#6B7280" strokeWidth={0.4} />
+
+        {xg.shots.map((v) => {
+          const ours = v.shot.side === side;
+          const fill = ours ? color : OPPONENT_COLOR;
+          const cx = ours ? v.x : -v.x;
+          const cy = ours ? -v.y : v.y;
+          const r = 1 + v.xg * 6;
+          const isGoal = v.shot.kind === "goal";
+          const isMiss = v.shot.kind === "missed-shot";
+          return (
+            <circle
+              key={v.shot.eventId}
+              cx={cx}
+              cy={cy}
+              r={isGoal ? r + 0.8 : r}
+              fill={isMiss ? "none" : fill}
+              fillOpacity={isGoal ? 1 : 0.55}
+              stroke={isGoal ? "#111827" : fill}
+              strokeWidth={isGoal ? 0.6 : 0.3}
+            >
+              <title>
+                {`${v.shot.teamAbbrev} ${v.shot.shooter?.name ?? "unknown"}, ${v.shot.period} ${v.shot.timeInPeriod}: ${v.shot.kind} (${v.shot.shotType ?? "?"}, ${Math.round(v.distance)}ft, ${(v.xg * 100).toFixed(0)}% xG)`}
+              </title>
+            </circle>
+          );
+        })}
+      </svg>
+      <p className="mt-2 text-center text-sm text-gray-500">
+        <span style={{ color }} className="font-semibold">{teamAbbrev}</span>{" "}
+        {xg[side].xg.toFixed(2)} xG &middot;{" "}
+        <span className="font-semibold text-gray-400">{timeline[otherSide].abbrev}</span>{" "}
+        {xg[otherSide].xg.toFixed(2)} xG
+      </p>
+      <p className="text-center text-xs text-gray-400">
+        Bigger dots were better chances. Outlined dots missed the net, ringed dots went in.
+      </p>
+    </section>
+  );
+}
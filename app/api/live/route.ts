@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { createNhlApiClient } from "@/lib/nhl-api";
+import { getLiveState } from "@/lib/live";
+import { getIntermissionReports } from "../../lib/storage";
+
+// Unlike the pages, this has to answer with what's happening now
+export const dynamic = "force-dynamic";
+
+const CACHE_SECONDS = 15;
+
+// Shared across requests on a warm instance, so a crowd of pollers costs one
+// NHL request per endpoint every CACHE_SECONDS
+const client = createNhlApiClient({ cacheTtlMs: CACHE_SECONDS * 1000, retries: 0 });
+
+export async function GET(request: Request) {
+  const gameIdParam = new URL(request.url).searchParams.get("gameId");
+  const shownGameId = gameIdParam && /^\d+$/.test(gameIdParam) ? Number(gameIdParam) : null;
+
+  try {
+    const live = await getLiveState(shownGameId, client);
+    if (live.game?.status === "live") {
+      live.game.intermissions = await getIntermissionReports(live.game.gameId);
+    }
+    return NextResponse.json(live, {
+      headers: { "Cache-Control": `public, max-age=${CACHE_SECONDS}, s-maxage=${CACHE_SECONDS}, stale-while-revalidate=${CACHE_SECONDS}` },
+    });
+  } catch (error) {
+    console.error("Live state unavailable:", error);
+    return NextResponse.json({ error: "Live state unavailable" }, { status: 502, headers: { "Cache-Control": "no-store" } });
+  }
+}
@@ -1,5 +1,15 @@
+import Link from "next/link";
 import { notFound } from "next/navigation";
-import { getGameReview, getAllGameIds } from "../../lib/storage";
+import { getGameReview, getGamePreview, getAllGameIds } from "../../lib/storage";
+import { getTeamConfig } from "@/lib/team";
+import { listRecaps } from "@/lib/personas";
+import { ShotAttemptsTable } from "../../ShotAttemptsTable";
+import { ShotMap } from "../../ShotMap";
+import { GameFlowChart } from "../../GameFlowChart";
+import { GoaliePulls } from "../../GoaliePulls";
+import { PlayerImpactCard } from "../../PlayerImpactCard";
+import { RecapSwitcher } from "../../RecapSwitcher";
+import { IntermissionReports } from "../../IntermissionReports";
 
 function truncateDescription(text: string, maxLength = 155): string {
   if (text.length <= maxLength) return text;
@@ -16,6 +26,7 @@ export async function generateStaticParams() {
 export async function generateMetadata({ params }: { params: Promise<{ gameId: string }> }) {
   const { gameId } = await params;
   const game = await getGameReview(Number(gameId));
+  const team = getTeamConfig();
 
   if (!game) {
     return { title: "Game Not Found" };
@@ -29,13 +40,13 @@ export async function generateMetadata({ params }: { params: Promise<{ gameId: s
   const result = game.didLose ? "Lost" : "Won";
   const ogImage = game.didLose ? "/dtll-lose.webp" : "/dtll-win.webp";
   return {
-    title: `Did the Leafs Lose? ${dateStr} - ${result} ${game.leafsScore}-${game.opponentScore} vs ${game.opponent}`,
+    title: `${team.site.name} ${dateStr} - ${result} ${game.leafsScore}-${game.opponentScore} vs ${game.opponent}`,
     description: truncateDescription(game.review),
     alternates: {
-      canonical: `https://www.didtheleafslose.com/archive/${gameId}`,
+      canonical: `${team.site.url}/archive/${gameId}`,
     },
     openGraph: {
-      url: `https://www.didtheleafslose.com/archive/${gameId}`,
+      url: `${team.site.url}/archive/${gameId}`,
       images: [ogImage],
     },
     twitter: {
@@ -47,7 +58,11 @@ export async function generateMetadata({ params }: { params: Promise<{ gameId: s
 
 export default async function GamePage({ params }: { params: Promise<{ gameId: string }> }) {
   const { gameId } = await params;
-  const game = await getGameReview(Number(gameId));
+  const [game, preview] = await Promise.all([
+    getGameReview(Number(gameId)),
+    getGamePreview(Number(gameId)),
+  ]);
+  const team = getTeamConfig();
 
   if (!game) {
     notFound();
@@ -59,6 +74,7 @@ export default async function GamePage({ params }: { params: Promise<{ gameId: s
     day: "numeric",
     year: "numeric",
   });
+  const recaps = listRecaps(game);
 
   return (
     <main className="min-h-screen flex flex-col items-center bg-white px-4 pt-8">
@@ -74,8 +90,8 @@ export default async function GamePage({ params }: { params: Promise<{ gameId: s
 
           <p className="text-lg text-gray-500 text-center mt-4">
             {game.didLose
-              ? "They lost. Classic."
-              : "They won this one."}
+              ? team.site.archiveLossTagline
+              : team.site.archiveWinTagline}
           </p>
 
           <div className="mt-8 text-center">
@@ -96,13 +112,39 @@ export default async function GamePage({ params }: { params: Promise<{ gameId: s
           </div>
         </article>
 
-        <section className="mt-10 w-full max-w-xl" aria-label="Game Review">
-          <div className="text-gray-600 text-base sm:text-lg leading-relaxed space-y-4 text-justify">
-            {game.review.split("\n\n").map((paragraph, idx) => (
-              <p key={idx}>{paragraph}</p>
-            ))}
-          </div>
-        </section>
+        {recaps.length > 1 ? (
+          <RecapSwitcher recaps={recaps} color={team.colors.primary} />
+        ) : (
+          <section className="mt-10 w-full max-w-xl" aria-label="Game Review">
+            <div className="text-gray-600 text-base sm:text-lg leading-relaxed space-y-4 text-justify">
+              {game.review.split("\n\n").map((paragraph, idx) => (
+                <p key={idx}>{paragraph}</p>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {game.intermissions && (
+          <IntermissionReports reports={game.intermissions} teamName={team.shortName} opponent={game.opponent} />
+        )}
+
+        {preview && (
+          <p className="mt-6 text-center text-sm">
+            <Link href={`/preview/${game.gameId}`} className="text-gray-500 hover:text-blue-600 underline">
+              Read the pre-game preview
+            </Link>
+          </p>
+        )}
+
+        {game.playerImpact && <PlayerImpactCard report={game.playerImpact} color={team.colors.primary} />}
+
+        {game.timeline && <GameFlowChart timeline={game.timeline} teamAbbrev={team.abbrev} color={team.colors.primary} />}
+
+        {game.timeline && <ShotMap timeline={game.timeline} teamAbbrev={team.abbrev} color={team.colors.primary} />}
+
+        {game.timeline && <ShotAttemptsTable timeline={game.timeline} teamAbbrev={team.abbrev} />}
+
+        {game.timeline && <GoaliePulls timeline={game.timeline} teamAbbrev={team.abbrev} />}
 
         {/* Ad Slot 2: Bottom of page
         <div className="mt-12 w-full max-w-3xl" aria-label="Advertisement">
@@ -112,9 +154,9 @@ export default async function GamePage({ params }: { params: Promise<{ gameId: s
 
         <footer className="mt-8 pb-16 text-center text-sm text-gray-500 max-w-md">
           <p>
-            Latest Toronto Maple Leafs score and game results.
+            Latest {team.fullName} score and game results.
             <br />
-            A new recap after every Leafs game.
+            A new recap after every {team.shortName} game.
           </p>
         </footer>
     </main>
@@ -1,16 +1,19 @@
 import Link from "next/link";
 import { getAllGameReviews } from "../lib/storage";
+import { getTeamConfig } from "@/lib/team";
 
 export const dynamic = "force-static";
 
+const team = getTeamConfig();
+
 export const metadata = {
-  title: "Game Archive - Did the Leafs Lose?",
-  description: "Archive of Toronto Maple Leafs game recaps and results.",
+  title: `Game Archive - ${team.site.name}`,
+  description: `Archive of ${team.fullName} game recaps and results.`,
   alternates: {
-    canonical: "https://www.didtheleafslose.com/archive",
+    canonical: `${team.site.url}/archive`,
   },
   openGraph: {
-    url: "https://www.didtheleafslose.com/archive",
+    url: `${team.site.url}/archive`,
     images: ["/dtll-lose.webp"],
   },
   twitter: {
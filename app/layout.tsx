@@ -1,45 +1,34 @@
 import type { Metadata } from "next";
 import { NavBar } from "./NavBar";
+import { getTeamConfig } from "@/lib/team";
 import "./globals.css";
 
+const team = getTeamConfig();
+
 export const metadata: Metadata = {
-  metadataBase: new URL("https://www.didtheleafslose.com"),
-  title: "Did the Leafs Lose? | Toronto Maple Leafs Score & Results",
-  description:
-    "Check if the Toronto Maple Leafs won or lost their latest NHL game. Get instant Leafs scores, game results, and updates for the current season.",
-  keywords: [
-    "Toronto Maple Leafs",
-    "Leafs score",
-    "Maple Leafs score",
-    "did the Leafs win",
-    "did the Leafs lose",
-    "Leafs game result",
-    "Toronto Maple Leafs score today",
-    "Leafs latest game",
-    "NHL scores",
-    "Maple Leafs results",
-  ],
+  metadataBase: new URL(team.site.url),
+  title: team.site.title,
+  description: team.site.description,
+  keywords: team.site.keywords,
   openGraph: {
-    title: "Did the Leafs Lose? | Toronto Maple Leafs Score",
-    description:
-      "Instantly find out if the Toronto Maple Leafs won or lost their latest NHL game.",
-    url: "https://www.didtheleafslose.com",
-    siteName: "Did the Leafs Lose?",
-    locale: "en_CA",
+    title: `${team.site.name} | ${team.fullName} Score`,
+    description: `Instantly find out if the ${team.fullName} won or lost their latest NHL game.`,
+    url: team.site.url,
+    siteName: team.site.name,
+    locale: team.site.locale,
     type: "website",
   },
   twitter: {
     card: "summary_large_image",
-    title: "Did the Leafs Lose?",
-    description:
-      "Check if the Toronto Maple Leafs won or lost their latest NHL game.",
+    title: team.site.name,
+    description: team.site.shortDescription,
   },
   robots: {
     index: true,
     follow: true,
   },
   alternates: {
-    canonical: "https://www.didtheleafslose.com",
+    canonical: team.site.url,
   },
 };
 
@@ -72,7 +61,7 @@ export default function RootLayout({
         />
       </head>
       <body className="antialiased">
-        <NavBar />
+        <NavBar siteName={team.site.name} color={team.colors.primary} />
         {children}
       </body>
     </html>
@@ -1,12 +1,14 @@
-// Game review storage using Netlify Blobs (read-only from Next.js)
+// Game review, preview and intermission report storage using Netlify Blobs (read-only from Next.js)
 // Writes are handled by the cron function and backfill function
 
 import { getStore } from "@netlify/blobs";
 
-import type { StoredGame } from "@/lib/nhl-types";
-export type { StoredGame };
+import type { IntermissionReport, StoredGame, StoredPreview } from "@/lib/nhl-types";
+export type { IntermissionReport, StoredGame, StoredPreview };
 
 const STORE_NAME = "game-reviews";
+const PREVIEWS_STORE_NAME = "game-previews";
+const INTERMISSIONS_STORE_NAME = "game-intermissions";
 
 function canAccessBlobs(): boolean {
   // Running on Netlify (runtime or local dev)
@@ -20,9 +22,9 @@ function canAccessBlobs(): boolean {
   return false;
 }
 
-function getStoreOptions() {
+function getStoreOptions(name = STORE_NAME) {
   const options: { name: string; consistency: "strong"; siteID?: string; token?: string } = {
-    name: STORE_NAME,
+    name,
     consistency: "strong",
   };
 
@@ -87,3 +89,46 @@ export async function getAllGameIds(): Promise<string[]> {
     return [];
   }
 }
+
+export async function getGamePreview(gameId: number): Promise<StoredPreview | null> {
+  if (!canAccessBlobs()) {
+    return null;
+  }
+
+  try {
+    const store = getStore(getStoreOptions(PREVIEWS_STORE_NAME));
+    const preview = await store.get(String(gameId), { type: "json" });
+    return preview as StoredPreview | null;
+  } catch {
+    return null;
+  }
+}
+
+export async function getAllPreviewIds(): Promise<string[]> {
+  if (!canAccessBlobs()) {
+    return [];
+  }
+
+  try {
+    const store = getStore(getStoreOptions(PREVIEWS_STORE_NAME));
+    const { blobs } = await store.list();
+    return blobs.map((blob) => blob.key);
+  } catch {
+    return [];
+  }
+}
+
+// Reports for a game that's still on, finished games carry theirs on the StoredGame
+export async function getIntermissionReports(gameId: number): Promise<IntermissionReport[]> {
+  if (!canAccessBlobs()) {
+    return [];
+  }
+
+  try {
+    const store = getStore(getStoreOptions(INTERMISSIONS_STORE_NAME));
+    const reports = await store.get(String(gameId), { type: "json" });
+    return (reports as IntermissionReport[] | null) ?? [];
+  } catch {
+    return [];
+  }
+}
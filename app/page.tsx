@@ -1,9 +1,23 @@
 import type { Metadata } from "next";
+import Link from "next/link";
 import { AdBanner } from "./AdBanner";
+import { ShotAttemptsTable } from "./ShotAttemptsTable";
+import { ShotMap } from "./ShotMap";
+import { GameFlowChart } from "./GameFlowChart";
+import { GoaliePulls } from "./GoaliePulls";
+import { PlayerImpactCard } from "./PlayerImpactCard";
+import { RecapSwitcher } from "./RecapSwitcher";
+import { LiveScore } from "./LiveScore";
+import { IntermissionReports } from "./IntermissionReports";
 import type { Game } from "@/lib/nhl-types";
-import { getLeafsGames, getGameScoring } from "@/lib/nhl-api";
+import { getLeafsGames, getGameScoring, getGameTimeline } from "@/lib/nhl-api";
 import { getPeriodLabel, formatAssists } from "@/lib/helpers";
-import { getGameReview } from "./lib/storage";
+import { getSeason, formatRecord } from "@/lib/season";
+import { getGameTypeLabel, getOffScheduleLabel, isExhibition } from "@/lib/game-state";
+import { getTeamConfig, teamLogoUrl } from "@/lib/team";
+import { listRecaps } from "@/lib/personas";
+import type { TeamConfig } from "@/lib/team";
+import { getGameReview, getGamePreview } from "./lib/storage";
 
 // Force static generation - page rebuilds are triggered by scheduled function
 export const dynamic = "force-static";
@@ -15,12 +29,13 @@ function truncateDescription(text: string, maxLength = 155): string {
 
 export async function generateMetadata(): Promise<Metadata> {
   const { latestGame: game } = await getLeafsGames();
+  const team = getTeamConfig();
 
   if (!game) {
     return {};
   }
 
-  const isLeafsHome = game.homeTeam.abbrev === "TOR";
+  const isLeafsHome = game.homeTeam.abbrev === team.abbrev;
   const leafsScore = isLeafsHome ? game.homeTeam.score : game.awayTeam.score;
   const opponentScore = isLeafsHome ? game.awayTeam.score : game.homeTeam.score;
   const opponent = isLeafsHome
@@ -29,11 +44,11 @@ export async function generateMetadata(): Promise<Metadata> {
   const didLose = (leafsScore ?? 0) < (opponentScore ?? 0);
 
   const result = didLose ? "lost" : "won";
-  const title = `Did the Leafs Lose? ${didLose ? "YES" : "NO"} - ${leafsScore}-${opponentScore} vs ${opponent}`;
+  const title = `${team.site.name} ${didLose ? "YES" : "NO"} - ${leafsScore}-${opponentScore} vs ${opponent}`;
   const description = truncateDescription(
     didLose
-      ? `Why did the Leafs lose? Toronto Maple Leafs ${result} ${leafsScore}-${opponentScore} against ${opponent}. Get the latest Leafs scores, results, and game recaps.`
-      : `Toronto Maple Leafs ${result} their latest game ${leafsScore}-${opponentScore} against ${opponent}. Get the latest Leafs scores, results, and game recaps.`
+      ? `Why did the ${team.shortName} lose? ${team.fullName} ${result} ${leafsScore}-${opponentScore} against ${opponent}. Get the latest ${team.shortName} scores, results, and game recaps.`
+      : `${team.fullName} ${result} their latest game ${leafsScore}-${opponentScore} against ${opponent}. Get the latest ${team.shortName} scores, results, and game recaps.`
   );
 
   const ogImage = didLose ? "/dtll-lose.webp" : "/dtll-win.webp";
@@ -55,30 +70,30 @@ export async function generateMetadata(): Promise<Metadata> {
   };
 }
 
-function buildJsonLd(game: Game, opponent: string, isLeafsHome: boolean, didLose: boolean, leafsScore: number, opponentScore: number) {
+function buildJsonLd(team: TeamConfig, game: Game, opponent: string, isLeafsHome: boolean, didLose: boolean, leafsScore: number, opponentScore: number) {
   const startDateTime = new Date(game.gameDate + "T12:00:00");
   const endDateTime = new Date(startDateTime.getTime() + 3 * 60 * 60 * 1000);
 
   return {
     "@context": "https://schema.org",
     "@type": "SportsEvent",
-    name: `Toronto Maple Leafs vs ${opponent}`,
-    description: `NHL game: Toronto Maple Leafs ${didLose ? "lost" : "won"} against ${opponent} with a final score of ${leafsScore}-${opponentScore}`,
+    name: `${team.fullName} vs ${opponent}`,
+    description: `NHL game: ${team.fullName} ${didLose ? "lost" : "won"} against ${opponent} with a final score of ${leafsScore}-${opponentScore}`,
     startDate: game.gameDate,
     endDate: endDateTime.toISOString(),
     eventStatus: "https://schema.org/EventScheduled",
-    image: "https://assets.nhle.com/logos/nhl/svg/TOR_light.svg",
+    image: teamLogoUrl(team.abbrev),
     location: {
       "@type": "Place",
-      name: isLeafsHome ? "Scotiabank Arena" : `${opponent} Arena`,
+      name: isLeafsHome ? team.arena.name : `${opponent} Arena`,
       ...(isLeafsHome && {
         address: {
           "@type": "PostalAddress",
-          streetAddress: "40 Bay Street",
-          addressLocality: "Toronto",
-          addressRegion: "ON",
-          postalCode: "M5J 2X2",
-          addressCountry: "CA",
+          streetAddress: team.arena.streetAddress,
+          addressLocality: team.arena.locality,
+          addressRegion: team.arena.region,
+          postalCode: team.arena.postalCode,
+          addressCountry: team.arena.country,
         },
       }),
     },
@@ -89,16 +104,16 @@ function buildJsonLd(game: Game, opponent: string, isLeafsHome: boolean, didLose
     },
     homeTeam: {
       "@type": "SportsTeam",
-      name: isLeafsHome ? "Toronto Maple Leafs" : opponent,
+      name: isLeafsHome ? team.fullName : opponent,
     },
     awayTeam: {
       "@type": "SportsTeam",
-      name: isLeafsHome ? opponent : "Toronto Maple Leafs",
+      name: isLeafsHome ? opponent : team.fullName,
     },
     competitor: [
       {
         "@type": "SportsTeam",
-        name: "Toronto Maple Leafs",
+        name: team.fullName,
         result: didLose ? "loss" : "win",
       },
       {
@@ -110,35 +125,43 @@ function buildJsonLd(game: Game, opponent: string, isLeafsHome: boolean, didLose
   };
 }
 
-const websiteJsonLd = {
-  "@context": "https://schema.org",
-  "@type": "WebSite",
-  name: "Did the Leafs Lose?",
-  url: "https://www.didtheleafslose.com",
-  description:
-    "Check if the Toronto Maple Leafs won or lost their latest NHL game. Get instant Leafs scores and game results.",
-};
+function buildWebsiteJsonLd(team: TeamConfig) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "WebSite",
+    name: team.site.name,
+    url: team.site.url,
+    description: `Check if the ${team.fullName} won or lost their latest NHL game. Get instant ${team.shortName} scores and game results.`,
+  };
+}
 
 export default async function Home() {
-  const { latestGame: game, nextGame } = await getLeafsGames();
+  const { latestGame: game, nextGame, offScheduleGame } = await getLeafsGames();
+  const team = getTeamConfig();
 
   if (!game) {
     return (
       <main className="min-h-screen flex flex-col items-center justify-center bg-white">
         <h1 className="text-2xl text-gray-600">
-          No recent Toronto Maple Leafs games found
+          No recent {team.fullName} games found
         </h1>
       </main>
     );
   }
 
-  // Fetch scoring data and stored review in parallel
-  const [scoring, storedGame] = await Promise.all([
+  // Fetch scoring data, season, stored review and previews in parallel
+  const [scoring, season, storedGame, latestPreview, nextPreview] = await Promise.all([
     getGameScoring(game.id),
+    getSeason(),
     getGameReview(game.id),
+    getGamePreview(game.id),
+    nextGame ? getGamePreview(nextGame.id) : null,
   ]);
 
-  const isLeafsHome = game.homeTeam.abbrev === "TOR";
+  // Stored games carry their parsed play-by-play, otherwise parse it fresh
+  const timeline = storedGame?.timeline ?? await getGameTimeline(game.id);
+
+  const isLeafsHome = game.homeTeam.abbrev === team.abbrev;
   const leafsScore = isLeafsHome ? game.homeTeam.score : game.awayTeam.score;
   const opponentScore = isLeafsHome ? game.awayTeam.score : game.homeTeam.score;
   const opponent = isLeafsHome
@@ -149,6 +172,7 @@ export default async function Home() {
 
   // Review comes from Blobs (created by cron job or backfill)
   const review = storedGame?.review ?? null;
+  const recaps = storedGame ? listRecaps(storedGame) : [];
 
   const gameDate = new Date(game.gameDate + "T12:00:00").toLocaleDateString("en-US", {
     weekday: "long",
@@ -156,13 +180,15 @@ export default async function Home() {
     day: "numeric",
   });
 
-  const jsonLd = buildJsonLd(game, opponent, isLeafsHome, didLose, leafsScore ?? 0, opponentScore ?? 0);
+  const gameTypeLabel = getGameTypeLabel(game);
+
+  const jsonLd = buildJsonLd(team, game, opponent, isLeafsHome, didLose, leafsScore ?? 0, opponentScore ?? 0);
 
   return (
     <>
       <script
         type="application/ld+json"
-        dangerouslySetInnerHTML={{ __html: JSON.stringify(websiteJsonLd) }}
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(buildWebsiteJsonLd(team)) }}
       />
       <script
         type="application/ld+json"
@@ -170,7 +196,7 @@ export default async function Home() {
       />
       <main className="min-h-screen flex flex-col items-center bg-white px-4 pt-8">
         <header className="sr-only">
-          <h1>Did the Toronto Maple Leafs Lose Their Latest Game?</h1>
+          <h1>Did the {team.fullName} Lose Their Latest Game?</h1>
         </header>
 
         {/* Ad Slot 1: Top of page
@@ -179,38 +205,79 @@ export default async function Home() {
         </div>
         */}
 
-        <article aria-label="Toronto Maple Leafs Game Result">
-          <p
-            className={`text-[6rem] sm:text-[12rem] md:text-[20rem] font-black leading-none text-center ${
-              didLose ? "text-red-600" : "text-green-600"
-            }`}
-            aria-label={`${didLose ? "Yes, the Leafs lost" : "No, the Leafs won"}`}
-          >
-            {didLose ? "YES" : "NO"}
-          </p>
+        {offScheduleGame && (() => {
+          const offIsHome = offScheduleGame.homeTeam.abbrev === team.abbrev;
+          const offOpponent = offIsHome
+            ? offScheduleGame.awayTeam.placeName.default
+            : offScheduleGame.homeTeam.placeName.default;
+          const offDate = new Date(offScheduleGame.gameDate + "T12:00:00").toLocaleDateString("en-US", {
+            month: "long",
+            day: "numeric",
+          });
+          return (
+            <aside
+              className="mb-8 w-full max-w-xl rounded border border-yellow-300 bg-yellow-50 px-4 py-3 text-center text-yellow-800"
+              aria-label="Schedule change"
+            >
+              <span className="font-semibold">{getOffScheduleLabel(offScheduleGame)}:</span>{" "}
+              {offIsHome ? "vs" : "@"} {offOpponent} on {offDate}
+            </aside>
+          );
+        })()}
 
-          <p className="text-lg sm:text-xl text-gray-500 text-center mt-4">
-            {didLose
-              ? "They lost. Do you feel better about yourself?"
-              : "They won, you hater"}
-          </p>
+        {/* Swaps to the live score while a game is on, the page is only rebuilt after it */}
+        <LiveScore
+          shownGameId={game.id}
+          teamName={team.shortName}
+          lossTagline={team.site.lossTagline}
+          winTagline={team.site.winTagline}
+        >
+          <article aria-label={`${team.fullName} Game Result`}>
+            {gameTypeLabel && (
+              <p className="text-center text-sm font-semibold text-gray-400 uppercase tracking-wider mb-2">
+                {gameTypeLabel}{isExhibition(game) ? " (doesn't count)" : ""}
+              </p>
+            )}
+            <p
+              className={`text-[6rem] sm:text-[12rem] md:text-[20rem] font-black leading-none text-center ${
+                didLose ? "text-red-600" : "text-green-600"
+              }`}
+              aria-label={`${didLose ? `Yes, the ${team.shortName} lost` : `No, the ${team.shortName} won`}`}
+            >
+              {didLose ? "YES" : "NO"}
+            </p>
 
-          <div className="mt-8 text-center">
-            <h2 className="text-2xl sm:text-3xl text-gray-700">
-              {isLeafsHome ? "vs" : "@"} {opponent}
-            </h2>
-            <p className="text-4xl sm:text-5xl font-bold text-gray-900 mt-2">
-              <span aria-label="Toronto Maple Leafs score">{leafsScore}</span>
-              {" - "}
-              <span aria-label={`${opponent} score`}>{opponentScore}</span>
+            <p className="text-lg sm:text-xl text-gray-500 text-center mt-4">
+              {didLose
+                ? team.site.lossTagline
+                : team.site.winTagline}
             </p>
-            <time dateTime={game.gameDate} className="text-lg text-gray-500 mt-4 block">
-              {gameDate}
-            </time>
-          </div>
-        </article>
 
-        {review && (
+            <div className="mt-8 text-center">
+              <h2 className="text-2xl sm:text-3xl text-gray-700">
+                {isLeafsHome ? "vs" : "@"} {opponent}
+              </h2>
+              <p className="text-4xl sm:text-5xl font-bold text-gray-900 mt-2">
+                <span aria-label={`${team.fullName} score`}>{leafsScore}</span>
+                {" - "}
+                <span aria-label={`${opponent} score`}>{opponentScore}</span>
+              </p>
+              <time dateTime={game.gameDate} className="text-lg text-gray-500 mt-4 block">
+                {gameDate}
+              </time>
+              {season && season.regular.gamesPlayed > 0 && (
+                <p className="text-sm text-gray-400 mt-2">
+                  {formatRecord(season.regular)} &middot; {season.regular.points} pts &middot;{" "}
+                  {season.regular.goalDifferential > 0 ? "+" : ""}{season.regular.goalDifferential} GD
+                </p>
+              )}
+            </div>
+          </article>
+        </LiveScore>
+
+        {recaps.length > 1 ? (
+          <RecapSwitcher recaps={recaps} color={team.colors.primary} />
+        ) : review && (
           <section className="mt-10 w-full max-w-xl" aria-label="Game Review">
             <div className="text-gray-600 text-base sm:text-lg leading-relaxed space-y-4 text-justify">
               {review.split("\n\n").map((paragraph, idx) => (
@@ -220,6 +287,20 @@ export default async function Home() {
           </section>
         )}
 
+        {storedGame?.intermissions && (
+          <IntermissionReports reports={storedGame.intermissions} teamName={team.shortName} opponent={opponent} />
+        )}
+
+        {latestPreview && (
+          <p className="mt-6 text-center text-sm">
+            <Link href={`/preview/${game.id}`} className="text-gray-500 hover:text-blue-600 underline">
+              Read the pre-game preview
+            </Link>
+          </p>
+        )}
+
+        {storedGame?.playerImpact && <PlayerImpactCard report={storedGame.playerImpact} color={team.colors.primary} />}
+
         {scoring.length > 0 && (
           <details className="mt-12 w-full max-w-xl">
             <summary className="cursor-pointer text-center text-gray-500 hover:text-gray-700 font-medium py-2">
@@ -235,7 +316,7 @@ export default async function Home() {
                     </h3>
                     <ul className="space-y-3">
                       {period.goals.map((goal, idx) => {
-                        const isLeafsGoal = goal.teamAbbrev.default === "TOR";
+                        const isLeafsGoal = goal.teamAbbrev.default === team.abbrev;
                         return (
                           <li key={idx} className="flex items-start gap-3">
                             <span className="text-sm text-gray-400 font-mono w-12 shrink-0">
@@ -274,8 +355,16 @@ export default async function Home() {
           </details>
         )}
 
+        {timeline && <GameFlowChart timeline={timeline} teamAbbrev={team.abbrev} color={team.colors.primary} />}
+
+        {timeline && <ShotMap timeline={timeline} teamAbbrev={team.abbrev} color={team.colors.primary} />}
+
+        {timeline && <ShotAttemptsTable timeline={timeline} teamAbbrev={team.abbrev} />}
+
+        {timeline && <GoaliePulls timeline={timeline} teamAbbrev={team.abbrev} />}
+
         {nextGame && (() => {
-          const nextIsHome = nextGame.homeTeam.abbrev === "TOR";
+          const nextIsHome = nextGame.homeTeam.abbrev === team.abbrev;
           const nextOpponent = nextIsHome
             ? nextGame.awayTeam.placeName.default
             : nextGame.homeTeam.placeName.default;
@@ -284,10 +373,11 @@ export default async function Home() {
             month: "long",
             day: "numeric",
           });
+          const nextTypeLabel = getGameTypeLabel(nextGame);
           return (
             <section className="mt-12 text-center" aria-label="Next Game">
               <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-2">
-                Next Game
+                Next Game{nextTypeLabel ? ` (${nextTypeLabel})` : ""}
               </h2>
               <p className="text-xl sm:text-2xl text-gray-700">
                 {nextIsHome ? "vs" : "@"} {nextOpponent}
@@ -295,6 +385,13 @@ export default async function Home() {
               <time dateTime={nextGame.gameDate} className="text-gray-500 mt-1 block">
                 {nextGameDate}
               </time>
+              {nextPreview && (
+                <div className="mt-6 max-w-xl text-gray-600 text-base leading-relaxed space-y-4 text-justify">
+                  {nextPreview.preview.split("\n\n").map((paragraph, idx) => (
+                    <p key={idx}>{paragraph}</p>
+                  ))}
+                </div>
+              )}
             </section>
           );
         })()}
@@ -307,9 +404,9 @@ export default async function Home() {
 
         <footer className="mt-8 pb-16 text-center text-sm text-gray-500 max-w-md">
           <p>
-            Latest Toronto Maple Leafs score and game results.
+            Latest {team.fullName} score and game results.
             <br />
-            A new recap after every Leafs game.
+            A new recap after every {team.shortName} game.
           </p>
         </footer>
       </main>
@@ -0,0 +1,90 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getGamePreview, getGameReview, getAllPreviewIds } from "../../lib/storage";
+import { getTeamConfig } from "@/lib/team";
+
+function truncateDescription(text: string, maxLength = 155): string {
+  if (text.length <= maxLength) return text;
+  return text.slice(0, maxLength - 1).trimEnd() + "…";
+}
+
+export const dynamic = "force-static";
+
+export async function generateStaticParams() {
+  const gameIds = await getAllPreviewIds();
+  return gameIds.map((gameId) => ({ gameId }));
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ gameId: string }> }) {
+  const { gameId } = await params;
+  const preview = await getGamePreview(Number(gameId));
+  const team = getTeamConfig();
+
+  if (!preview) {
+    return { title: "Preview Not Found" };
+  }
+
+  const dateStr = new Date(preview.gameDate + "T12:00:00").toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+  return {
+    title: `${team.site.name} ${dateStr} - Preview ${preview.isLeafsHome ? "vs" : "@"} ${preview.opponent}`,
+    description: truncateDescription(preview.preview),
+    alternates: {
+      canonical: `${team.site.url}/preview/${gameId}`,
+    },
+  };
+}
+
+export default async function PreviewPage({ params }: { params: Promise<{ gameId: string }> }) {
+  const { gameId } = await params;
+  const [preview, recap] = await Promise.all([
+    getGamePreview(Number(gameId)),
+    getGameReview(Number(gameId)),
+  ]);
+
+  if (!preview) {
+    notFound();
+  }
+
+  const gameDate = new Date(preview.gameDate + "T12:00:00").toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
+  return (
+    <main className="min-h-screen flex flex-col items-center bg-white px-4 pt-8">
+      <article className="mt-6 text-center">
+        <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-2">
+          Preview
+        </h2>
+        <h1 className="text-2xl sm:text-3xl text-gray-700">
+          {preview.isLeafsHome ? "vs" : "@"} {preview.opponent}
+        </h1>
+        <time dateTime={preview.gameDate} className="text-lg text-gray-500 mt-4 block">
+          {gameDate}
+        </time>
+      </article>
+
+      <section className="mt-10 w-full max-w-xl" aria-label="Game Preview">
+        <div className="text-gray-600 text-base sm:text-lg leading-relaxed space-y-4 text-justify">
+          {preview.preview.split("\n\n").map((paragraph, idx) => (
+            <p key={idx}>{paragraph}</p>
+          ))}
+        </div>
+      </section>
+
+      {recap && (
+        <p className="mt-8 text-center">
+          <Link href={`/archive/${preview.gameId}`} className="text-gray-500 hover:text-blue-600 underline">
+            How it went: {recap.didLose ? "lost" : "won"} {recap.leafsScore}-{recap.opponentScore}
+          </Link>
+        </p>
+      )}
+    </main>
+  );
+}
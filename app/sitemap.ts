@@ -1,12 +1,13 @@
 import type { MetadataRoute } from "next";
-import { getAllGameIds } from "./lib/storage";
+import { getAllGameIds, getAllPreviewIds } from "./lib/storage";
+import { getTeamConfig } from "@/lib/team";
 
 export const dynamic = "force-static";
 
-const BASE_URL = "https://www.didtheleafslose.com";
+const BASE_URL = getTeamConfig().site.url;
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
-  const gameIds = await getAllGameIds();
+  const [gameIds, previewIds] = await Promise.all([getAllGameIds(), getAllPreviewIds()]);
 
   const gamePages = gameIds.map((gameId) => ({
     url: `${BASE_URL}/archive/${gameId}`,
@@ -15,6 +16,13 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     priority: 0.6,
   }));
 
+  const previewPages = previewIds.map((gameId) => ({
+    url: `${BASE_URL}/preview/${gameId}`,
+    lastModified: new Date(),
+    changeFrequency: "monthly" as const,
+    priority: 0.4,
+  }));
+
   return [
     {
       url: BASE_URL,
@@ -29,5 +37,6 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       priority: 0.8,
     },
     ...gamePages,
+    ...previewPages,
   ];
 }
@@ -0,0 +1,147 @@
+// A deliberately simple expected-goals model: a logistic curve over shot distance
+// and angle with a few shot-type adjustments. It's tuned to land in the right
+// ballpark (a point-blank chance is ~25%, a point shot ~2%), not to win arguments
+// with the analytics crowd.
+
+import type { GameTimeline, ShotAttempt, TeamSide } from "./play-by-play";
+
+export type Danger = "low" | "medium" | "high";
+
+export interface ShotValue {
+  shot: ShotAttempt;
+  // Coordinates with the shooting team attacking the net at (89, 0)
+  x: number;
+  y: number;
+  distance: number;
+  angle: number;
+  emptyNet: boolean;
+  xg: number;
+  danger: Danger;
+}
+
+export interface TeamExpectedGoals {
+  xg: number;
+  goals: number;
+  unblockedShots: number;
+  highDanger: number;
+}
+
+export interface ExpectedGoals {
+  shots: ShotValue[];
+  home: TeamExpectedGoals;
+  away: TeamExpectedGoals;
+}
+
+const GOAL_LINE_X = 89;
+// Past the blue line, so the sign of x tells us which end the shot came from
+const ZONE_X = 25;
+
+const INTERCEPT = -0.6;
+const DISTANCE_COEF = -0.055;
+const ANGLE_COEF = -0.012;
+const SHOT_TYPE_ADJUSTMENT: Record<string, number> = {
+  "tip-in": 0.4,
+  deflected: 0.4,
+  bat: 0.2,
+  snap: 0.05,
+  wrist: 0,
+  backhand: -0.1,
+  slap: -0.1,
+  poke: -0.2,
+  "wrap-around": -0.5,
+};
+const EMPTY_NET_XG = 0.9;
+
+const logistic = (z: number) => 1 / (1 + Math.exp(-z));
+
+export function shotDanger(xg: number): Danger {
+  if (xg >= 0.12) return "high";
+  if (xg >= 0.05) return "medium";
+  return "low";
+}
+
+// situationCode digits: awayGoalie, awaySkaters, homeSkaters, homeGoalie
+function defendingNetEmpty(shot: ShotAttempt): boolean {
+  const code = shot.situationCode;
+  if (!code || code.length !== 4) return false;
+  return (shot.side === "home" ? code[0] : code[3]) === "0";
+}
+
+// zoneCode is from the event owner's point of view, and blocked shots belong to the blocker
+function inShooterOffensiveZone(shot: ShotAttempt): boolean | null {
+  if (!shot.zoneCode || shot.zoneCode === "N") return null;
+  return shot.kind === "blocked-shot" ? shot.zoneCode === "D" : shot.zoneCode === "O";
+}
+
+// Teams switch ends every period, so work out per team and period which way
+// they were attacking from the shots we can place in their offensive zone
+function attackingDirections(shots: ShotAttempt[]): Map<string, 1 | -1> {
+  const votes = new Map<string, number>();
+  for (const shot of shots) {
+    if (shot.xCoord === null || Math.abs(shot.xCoord) < ZONE_X) continue;
+    const offensive = inShooterOffensiveZone(shot);
+    if (offensive === null) continue;
+    const key = `${shot.period}:${shot.side}`;
+    const vote = Math.sign(shot.xCoord) * (offensive ? 1 : -1);
+    votes.set(key, (votes.get(key) ?? 0) + vote);
+  }
+  const directions = new Map<string, 1 | -1>();
+  votes.forEach((v, key) => directions.set(key, v >= 0 ? 1 : -1));
+  return directions;
+}
+
+export function valueShot(shot: ShotAttempt, direction: 1 | -1): ShotValue | null {
+  if (shot.xCoord === null || shot.yCoord === null) return null;
+
+  const x = shot.xCoord * direction;
+  const y = shot.yCoord * direction;
+  const dx = GOAL_LINE_X - x;
+  const distance = Math.sqrt(dx * dx + y * y);
+  // Behind the goal line the angle keeps growing past 90
+  const angle = (Math.atan2(Math.abs(y), dx) * 180) / Math.PI;
+  const emptyNet = defendingNetEmpty(shot);
+
+  const z = INTERCEPT
+    + DISTANCE_COEF * distance
+    + ANGLE_COEF * angle
+    + (shot.shotType ? SHOT_TYPE_ADJUSTMENT[shot.shotType] ?? 0 : 0);
+  const xg = emptyNet ? Math.max(EMPTY_NET_XG, logistic(z)) : logistic(z);
+
+  return { shot, x, y, distance, angle, emptyNet, xg, danger: shotDanger(xg) };
+}
+
+export function computeExpectedGoals(timeline: GameTimeline): ExpectedGoals {
+  const directions = attackingDirections(timeline.shots);
+  const blank = (): TeamExpectedGoals => ({ xg: 0, goals: 0, unblockedShots: 0, highDanger: 0 });
+  const result: ExpectedGoals = { shots: [], home: blank(), away: blank() };
+
+  for (const shot of timeline.shots) {
+    // Blocked shot coordinates are where the block happened, not where the shot was taken
+    if (shot.kind === "blocked-shot") continue;
+    const direction = directions.get(`${shot.period}:${shot.side}`)
+      ?? (shot.xCoord !== null && shot.xCoord < 0 ? -1 : 1);
+    const value = valueShot(shot, direction);
+    if (!value) continue;
+
+    result.shots.push(value);
+    const team = result[shot.side];
+    team.xg += value.xg;
+    team.unblockedShots++;
+    if (shot.kind === "goal") team.goals++;
+    if (value.danger === "high") team.highDanger++;
+  }
+
+  return result;
+}
+
+export function renderExpectedGoals(xg: ExpectedGoals, timeline: GameTimeline): string {
+  const line = (side: TeamSide) => {
+    const t = xg[side];
+    return `${timeline[side].abbrev}: ${t.xg.toFixed(2)} xG from ${t.unblockedShots} unblocked shots (${t.highDanger} high danger), ${t.goals} actual goals`;
+  };
+  const diff = xg.home.xg - xg.away.xg;
+  const deserved = Math.abs(diff) < 0.3
+    ? "Even on chances"
+    : `${diff > 0 ? timeline.home.abbrev : timeline.away.abbrev} deserved it on chances`;
+  return [line("away"), line("home"), deserved].join("\n");
+}
@@ -0,0 +1,191 @@
+// Checks a generated review against the data it was written from. Errors are
+// things we can be sure are wrong (a score that doesn't match, a goal credited
+// to someone who didn't score) and get the review rejected. Warnings are
+// likely hallucinations worth a look, like a full name nobody on either roster has.
+
+import type { Game } from "./nhl-types";
+import type { GameContext } from "./game-context";
+import { getTeamConfig } from "./team";
+import { historicalScorelines } from "./history";
+
+export type FactIssueKind = "final-score" | "score" | "scorer" | "unknown-player";
+
+export interface FactIssue {
+  severity: "error" | "warning";
+  kind: FactIssueKind;
+  message: string;
+  passage: string;
+}
+
+export interface FactCheckResult {
+  passed: boolean;
+  issues: FactIssue[];
+}
+
+interface KnownPlayer {
+  firstName: string;
+  lastName: string;
+  goals: number;
+}
+
+type FactData = Pick<GameContext, "game" | "scoring" | "rosterSpots" | "leafsSkaters" | "leafsGoalies" | "opponentSkaters" | "opponentGoalies">
+  & Partial<Pick<GameContext, "history">>;
+
+// Words that start a capitalized pair without being a first name
+const LEADING_WORDS = new Set([
+  "a", "after", "and", "as", "at", "but", "by", "even", "every", "everyone", "for", "from", "he", "his",
+  "if", "in", "it", "its", "meanwhile", "nobody", "not", "of", "on", "only", "she", "so", "someone",
+  "still", "that", "the", "their", "then", "they", "this", "though", "when", "while", "who", "with", "yet",
+]);
+
+// Capitalized words that aren't people, on top of the teams and places in the game
+const NOT_PEOPLE = new Set([
+  "arena", "avalanche", "blackhawks", "blue", "bruins", "canadiens", "canucks", "capitals", "centre",
+  "cup", "devils", "ducks", "flames", "flyers", "golden", "hockey", "hurricanes", "islanders", "jackets",
+  "jets", "kings", "knights", "kraken", "leafs", "lightning", "maple", "mammoth", "national", "nhl",
+  "night", "oilers", "panthers", "penguins", "predators", "rangers", "sabres", "senators", "sharks",
+  "stanley", "stars", "wild", "wings",
+]);
+
+// A score is only the final score when a result word sits right next to it:
+// "won 3-2", "beat the Bruins 3-2", "a 3-2 overtime loss". Anything else in the
+// sentence ("went 1-4 on the power play", "7-3 in their last ten") is something else.
+const RESULT_BEFORE_SCORE = /\b(?:final|lost|lose|loses|losing|won|win|wins|beat|beats|fell|falls|defeated|dropped|drops|edged|edges|blanked|shut out|downed|topped)\b(?:\s+[^\s\d,;:.!?()]+){0,3}\s*$/i;
+const RESULT_AFTER_SCORE = /^\s*(?:(?:overtime|OT|shootout|SO)\s+)?(?:win|loss|victory|defeat|decision|final)\b/i;
+// Results from other games between the same teams
+const EARLIER_MEETING = /\b(?:last time|last meeting|previous(?:ly)?|last season|earlier (?:this|in the) season|back in|meetings?)\b/i;
+// Up to three capitalized words, so "Toronto's Auston Matthews" comes through whole
+// and creditedName sorts out which of them is the player
+const SCORER_PATTERN = /\b((?:[A-Z][\p{L}'’-]+ ){0,2}[A-Z][\p{L}'’-]+)\s+(?:scored|scores|netted|buried|potted|tallied|sniped)\b/gu;
+const GOAL_FROM_PATTERN = /\b(?:goals?|marker|tally|winner|equalizer) (?:from|by) ((?:[A-Z][\p{L}'’-]+ ){0,2}[A-Z][\p{L}'’-]+)/gu;
+// The surname is a lookahead so "Then Connor McDavid" still yields "Connor McDavid"
+const FULL_NAME_PATTERN = /\b([A-Z][\p{L}'-]+) (?=((?:Mc|Mac|De|O')?[A-Z][\p{L}'-]+)\b)/gu;
+const SCORE_PATTERN = /(?<![\d-])(\d{1,2})\s?[-–]\s?(\d{1,2})(?![\d-])/g;
+
+const normalize = (s: string) => s.normalize("NFD").replace(/\p{Diacritic}/gu, "").toLowerCase();
+
+function sentenceStart(text: string, index: number): number {
+  return Math.max(text.lastIndexOf(". ", index), text.lastIndexOf("\n", index)) + 1;
+}
+
+function sentenceAround(text: string, index: number): string {
+  const start = sentenceStart(text, index);
+  const ends = [". ", "! ", "? ", "\n"].map((c) => text.indexOf(c, index)).filter((i) => i !== -1);
+  const end = ends.length > 0 ? Math.min(...ends) + 1 : text.length;
+  return text.slice(start, end).trim();
+}
+
+function knownPlayers(data: FactData): KnownPlayer[] {
+  // Shootout goals count here, "scored in the shootout" is a fair thing to say
+  const goals = new Map<number, number>();
+  for (const period of data.scoring) {
+    for (const goal of period.goals) goals.set(goal.playerId, (goals.get(goal.playerId) ?? 0) + 1);
+  }
+
+  // The play-by-play roster has full names, the boxscore only has "A. Matthews"
+  if (data.rosterSpots.length > 0) {
+    return data.rosterSpots.map((spot) => ({
+      firstName: normalize(spot.firstName.default),
+      lastName: normalize(spot.lastName.default),
+      goals: goals.get(spot.playerId) ?? 0,
+    }));
+  }
+  return [...data.leafsSkaters, ...data.leafsGoalies, ...data.opponentSkaters, ...data.opponentGoalies].map((p) => {
+    const [first, ...rest] = p.name.default.split(" ");
+    return { firstName: normalize(first.replace(/\.$/, "")), lastName: normalize(rest.join(" ")), goals: goals.get(p.playerId) ?? 0 };
+  });
+}
+
+// Every score the game actually passed through, as "away-home"
+function scoreStates(game: Game, data: FactData): Set<string> {
+  const states = new Set(["0-0", `${game.awayTeam.score ?? 0}-${game.homeTeam.score ?? 0}`]);
+  for (const period of data.scoring) {
+    for (const goal of period.goals) states.add(`${goal.awayScore}-${goal.homeScore}`);
+  }
+  return states;
+}
+
+export function factCheckReview(review: string, data: FactData): FactCheckResult {
+  const { game } = data;
+  const issues: FactIssue[] = [];
+  const players = knownPlayers(data);
+  const byLastName = (name: string) => players.filter((p) => p.lastName === name || p.lastName.endsWith(` ${name}`));
+  const team = getTeamConfig();
+  const ignored = new Set(
+    [
+      team.fullName, team.shortName, team.arena.name,
+      game.awayTeam.placeName.default, game.homeTeam.placeName.default,
+      game.awayTeam.abbrev, game.homeTeam.abbrev,
+    ].flatMap((s) => normalize(s).split(/\s+/))
+  );
+  const notAPlayer = (word: string) => LEADING_WORDS.has(word) || NOT_PEOPLE.has(word) || ignored.has(word);
+
+  // Scores, in either order since recaps lead with the tracked team
+  const final = [game.awayTeam.score ?? 0, game.homeTeam.score ?? 0];
+  const states = scoreStates(game, data);
+  // Records and the previous meeting the v2 prompt hands over are fair game too
+  const fromHistory = new Set(data.history ? historicalScorelines(data.history) : []);
+  for (const m of review.matchAll(SCORE_PATTERN)) {
+    const a = parseInt(m[1], 10);
+    const b = parseInt(m[2], 10);
+    if (states.has(`${a}-${b}`) || states.has(`${b}-${a}`)) continue;
+    if (fromHistory.has(`${a}-${b}`) || fromHistory.has(`${b}-${a}`)) continue;
+
+    const index = m.index ?? 0;
+    const passage = sentenceAround(review, index);
+    const asResult = RESULT_BEFORE_SCORE.test(review.slice(sentenceStart(review, index), index))
+      || RESULT_AFTER_SCORE.test(review.slice(index + m[0].length));
+    if (asResult && !EARLIER_MEETING.test(passage)) {
+      issues.push({ severity: "error", kind: "final-score", message: `States ${a}-${b}, final was ${final[0]}-${final[1]}`, passage });
+    } else {
+      issues.push({ severity: "warning", kind: "score", message: `${a}-${b} was never the score`, passage });
+    }
+  }
+
+  // Goals credited to players. Possessives and team or place words come off
+  // first, "Toronto's Auston Matthews" is Auston Matthews.
+  const creditedName = (raw: string) =>
+    raw.split(" ")
+      .map((word) => word.replace(/['’]s?$/, ""))
+      .filter((word) => word !== "" && !notAPlayer(normalize(word)));
+  const rosterMatches = ([first, ...rest]: string[]) => {
+    if (rest.length === 0) return byLastName(normalize(first));
+    // The boxscore fallback only has initials for first names
+    const firstName = normalize(first);
+    return byLastName(normalize(rest.join(" "))).filter((p) => p.firstName === firstName || p.firstName === firstName[0]);
+  };
+  const credited = [...review.matchAll(SCORER_PATTERN), ...review.matchAll(GOAL_FROM_PATTERN)]
+    .map((m) => ({ words: creditedName(m[1]), index: m.index ?? 0 }));
+  for (const { words, index } of credited) {
+    if (words.length === 0) continue;
+    const name = words.join(" ");
+    const matches = rosterMatches(words);
+    const passage = sentenceAround(review, index);
+    if (matches.length === 0) {
+      issues.push({ severity: "error", kind: "scorer", message: `Goal credited to ${name}, who isn't on either roster`, passage });
+    } else if (matches.every((p) => p.goals === 0)) {
+      issues.push({ severity: "error", kind: "scorer", message: `Goal credited to ${name}, who didn't score`, passage });
+    }
+  }
+
+  // Full names nobody in the game has
+  const flagged = new Set<string>();
+  for (const m of review.matchAll(FULL_NAME_PATTERN)) {
+    // "Toronto's Auston" is a team and a first name, not a full name
+    if (/['’]s?$/.test(m[1])) continue;
+    const first = normalize(m[1]);
+    const last = normalize(m[2]);
+    const fullName = `${m[1]} ${m[2]}`;
+    if (notAPlayer(first) || notAPlayer(last)) continue;
+    if (byLastName(last).length > 0 || flagged.has(fullName)) continue;
+    flagged.add(fullName);
+    issues.push({
+      severity: "warning",
+      kind: "unknown-player",
+      message: `${fullName} didn't play in this game`,
+      passage: sentenceAround(review, m.index ?? 0),
+    });
+  }
+
+  return { passed: !issues.some((i) => i.severity === "error"), issues };
+}
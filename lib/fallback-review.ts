@@ -0,0 +1,152 @@
+// A rule-based recap for when the model is down or unconfigured. Built from the
+// same game data as buildReviewPrompt under the same house rules (no emoji, em
+// dashes or semicolons), and the same game always gets the same phrasing.
+
+import type { ScoringPeriod, PenaltyPeriod, GoalieStats } from "./nhl-types";
+import type { GameContext } from "./game-context";
+import { getTeamConfig } from "./team";
+
+interface RecapContext {
+  team: string;
+  opponent: string;
+  teamScore: number;
+  opponentScore: number;
+  margin: number;
+  venue: string;
+  // " in overtime", " in a shootout" or ""
+  decided: string;
+}
+
+type Template = (c: RecapContext) => string;
+
+const LOSS_OPENERS: Template[] = [
+  (c) => `The ${c.team} lost ${c.teamScore}-${c.opponentScore}${c.decided} ${c.venue} ${c.opponent}, which will surprise exactly nobody.`,
+  (c) => `Another one for the pile. ${c.opponent} beat the ${c.team} ${c.opponentScore}-${c.teamScore}${c.decided}.`,
+  (c) => `${c.opponent} ${c.opponentScore}, ${c.team} ${c.teamScore}${c.decided}. You already knew how this one was going to end.`,
+  (c) => `The ${c.team} found a way to lose ${c.venue} ${c.opponent}, ${c.opponentScore}-${c.teamScore}${c.decided}.`,
+];
+
+const WIN_OPENERS: Template[] = [
+  (c) => `The ${c.team} beat ${c.opponent} ${c.teamScore}-${c.opponentScore}${c.decided}. Enjoy it while it lasts.`,
+  (c) => `Somehow the ${c.team} won, ${c.teamScore}-${c.opponentScore}${c.decided} ${c.venue} ${c.opponent}.`,
+  (c) => `Two points for the ${c.team}. They took down ${c.opponent} ${c.teamScore}-${c.opponentScore}${c.decided}, and nobody has to pretend to be happy for long.`,
+];
+
+const BLOWOUT_LOSS: Template[] = [
+  (c) => `A ${c.margin}-goal loss is not a rough night, it's a cry for help.`,
+  (c) => `Losing by ${c.margin} takes real commitment.`,
+];
+
+const BLOWOUT_WIN: Template[] = [
+  (c) => `A ${c.margin}-goal win, so expect the Cup talk to start by morning.`,
+  (c) => `Winning by ${c.margin} is nice, but the bar was on the floor.`,
+];
+
+const LOSS_CLOSERS: Template[] = [
+  () => "Same time next game.",
+  () => "They'll get them next time. Probably not, though.",
+  () => "At least the draft lottery odds are holding steady.",
+];
+
+const WIN_CLOSERS: Template[] = [
+  () => "Don't get used to it.",
+  () => "Back to reality next game.",
+  () => "Savour it. The next loss is never far away.",
+];
+
+// Stable across runs for a given game, unlike Math.random()
+function pick<T>(options: T[], gameId: number, salt: number): T {
+  return options[(gameId + salt * 7) % options.length];
+}
+
+const fullName = (first?: { default: string }, last?: { default: string }) =>
+  `${first?.default ?? ""} ${last?.default ?? ""}`.trim() || "Somebody";
+
+function describeScorers(scoring: ScoringPeriod[], teamAbbrev: string): string | null {
+  const counts = new Map<string, number>();
+  for (const period of scoring) {
+    if (period.periodDescriptor.periodType === "SO") continue;
+    for (const goal of period.goals) {
+      if (goal.teamAbbrev.default !== teamAbbrev) continue;
+      const name = fullName(goal.firstName, goal.lastName);
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+  }
+  if (counts.size === 0) return null;
+  const parts = Array.from(counts, ([name, n]) =>
+    n === 1 ? name : n === 2 ? `${name} (twice)` : `${name} (${n} times)`
+  );
+  return parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}`;
+}
+
+function describeGoalie(goalies: GoalieStats[]): string | null {
+  const starter = goalies.find((g) => g.starter) ?? goalies[0];
+  if (!starter) return null;
+  const [saves] = starter.saveShotsAgainst.split("/");
+  return `${starter.name.default} made ${saves} saves at ${(starter.savePctg * 100).toFixed(1)}%`;
+}
+
+function describePenalties(penalties: PenaltyPeriod[], teamAbbrev: string): string | null {
+  let minutes = 0;
+  let fights = 0;
+  for (const period of penalties) {
+    for (const p of period.penalties) {
+      if (p.teamAbbrev.default !== teamAbbrev) continue;
+      minutes += p.duration;
+      if (p.descKey === "fighting") fights++;
+    }
+  }
+  if (fights > 0) return "There was even a fight, which is more fire than they usually show.";
+  if (minutes >= 10) return `They took ${minutes} penalty minutes, because discipline is for other teams.`;
+  return null;
+}
+
+type FallbackData = Pick<GameContext, "game" | "scoring" | "penalties" | "leafsSkaters" | "leafsGoalies" | "opponentGoalies">;
+
+export function buildFallbackReview({ game, scoring, penalties, leafsSkaters, leafsGoalies, opponentGoalies }: FallbackData): string {
+  const team = getTeamConfig();
+  const isHome = game.homeTeam.abbrev === team.abbrev;
+  const us = isHome ? game.homeTeam : game.awayTeam;
+  const them = isHome ? game.awayTeam : game.homeTeam;
+  const teamScore = us.score ?? 0;
+  const opponentScore = them.score ?? 0;
+  const didLose = teamScore < opponentScore;
+  const wasSO = scoring.some((p) => p.periodDescriptor.periodType === "SO");
+  const wasOT = !wasSO && scoring.some((p) => p.periodDescriptor.periodType === "OT");
+
+  const c: RecapContext = {
+    team: team.shortName,
+    opponent: them.placeName.default,
+    teamScore,
+    opponentScore,
+    margin: Math.abs(teamScore - opponentScore),
+    venue: isHome ? "at home against" : "on the road against",
+    decided: wasSO ? " in a shootout" : wasOT ? " in overtime" : "",
+  };
+
+  const first: string[] = [pick(didLose ? LOSS_OPENERS : WIN_OPENERS, game.id, 0)(c)];
+  if (c.margin >= 3) first.push(pick(didLose ? BLOWOUT_LOSS : BLOWOUT_WIN, game.id, 1)(c));
+
+  const ourScorers = describeScorers(scoring, us.abbrev);
+  const theirScorers = describeScorers(scoring, them.abbrev);
+  if (ourScorers) first.push(`Goals came from ${ourScorers}.`);
+  else first.push(`The ${c.team} didn't score at all.`);
+  if (theirScorers) first.push(`${c.opponent} got theirs from ${theirScorers}.`);
+
+  const second: string[] = [];
+  const ourGoalie = describeGoalie(leafsGoalies);
+  const theirGoalie = describeGoalie(opponentGoalies);
+  if (ourGoalie) second.push(`${ourGoalie}.`);
+  if (theirGoalie) second.push(`At the other end, ${theirGoalie}.`);
+
+  const pointless = leafsSkaters
+    .filter((s) => s.points === 0 && s.plusMinus <= -2)
+    .sort((a, b) => a.plusMinus - b.plusMinus)[0];
+  if (pointless) second.push(`${pointless.name.default} finished ${pointless.plusMinus} and will want to forget this one.`);
+
+  const penaltyLine = describePenalties(penalties, us.abbrev);
+  if (penaltyLine) second.push(penaltyLine);
+  second.push(pick(didLose ? LOSS_CLOSERS : WIN_CLOSERS, game.id, 2)(c));
+
+  return `${first.join(" ")}\n\n${second.join(" ")}`;
+}
@@ -0,0 +1,68 @@
+// Record/replay of NHL API responses for offline development.
+//
+//   NHL_FIXTURES=record  save every successful response under NHL_FIXTURES_DIR
+//   NHL_FIXTURES=replay  serve responses from NHL_FIXTURES_DIR, never touch the network
+//
+// Files are laid out by request path, e.g. v1/gamecenter/2024020001/landing.json,
+// so a directory recorded for one game can be replayed by the scripts, the
+// Next.js build and the cron function alike.
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type FixtureMode = "record" | "replay";
+
+const DEFAULT_FIXTURES_DIR = "fixtures";
+
+function fixtureFile(dir: string, url: string): string {
+  const { pathname } = new URL(url);
+  return path.join(dir, `${pathname.replace(/^\/+|\/+$/g, "")}.json`);
+}
+
+const requestUrl = (input: RequestInfo | URL) =>
+  typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+
+export function createRecordingFetch(dir: string, inner: typeof fetch = (input, init) => fetch(input, init)): typeof fetch {
+  return async (input, init) => {
+    const res = await inner(input, init);
+    if (res.ok) {
+      const file = fixtureFile(dir, requestUrl(input));
+      const body = await res.clone().text();
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+    }
+    return res;
+  };
+}
+
+export function createReplayFetch(dir: string): typeof fetch {
+  return async (input) => {
+    const file = fixtureFile(dir, requestUrl(input));
+    try {
+      const body = await readFile(file, "utf8");
+      return new Response(body, { status: 200, headers: { "Content-Type": "application/json" } });
+    } catch {
+      // A 404 isn't retried by the client, so a missing fixture fails fast
+      return new Response(`No fixture at ${file}`, { status: 404 });
+    }
+  };
+}
+
+export function getFixtureMode(): FixtureMode | null {
+  const mode = process.env.NHL_FIXTURES;
+  if (!mode) return null;
+  if (mode === "record" || mode === "replay") return mode;
+  throw new Error(`Unknown NHL_FIXTURES mode "${mode}", expected "record" or "replay"`);
+}
+
+export function getFixturesDir(): string {
+  return path.resolve(process.env.NHL_FIXTURES_DIR ?? DEFAULT_FIXTURES_DIR);
+}
+
+// The fetch implementation implied by the environment, or null for the live API
+export function fixtureFetchFromEnv(): typeof fetch | null {
+  const mode = getFixtureMode();
+  if (mode === "record") return createRecordingFetch(getFixturesDir());
+  if (mode === "replay") return createReplayFetch(getFixturesDir());
+  return null;
+}
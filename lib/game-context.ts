@@ -0,0 +1,87 @@
+// Everything the recap pipeline knows about one finished game, loaded once and
+// handed to the prompt templates, the fact-checker and the fallback recap.
+
+import type { Game, StoredGame } from "./nhl-types";
+import { getGameData, nhlApi } from "./nhl-api";
+import type { GameData, GameDataFailure, NhlApiClient } from "./nhl-api";
+import type { SchemaWarning } from "./nhl-validate";
+import { getTeamConfig } from "./team";
+import { getSeason } from "./season";
+import { buildHistoricalContext, currentResult } from "./history";
+import type { HistoricalContext } from "./history";
+
+// The result from the tracked team's side, so nobody has to work it out again
+export interface GameMetadata {
+  teamAbbrev: string;
+  isLeafsHome: boolean;
+  opponent: string;
+  opponentAbbrev: string;
+  leafsScore: number;
+  opponentScore: number;
+  didLose: boolean;
+  wasOT: boolean;
+  wasSO: boolean;
+}
+
+export interface GameContext extends Omit<GameData, "failures" | "warnings"> {
+  game: Game;
+  metadata: GameMetadata;
+  // Null when there's neither a season schedule nor an archive to work from
+  history: HistoricalContext | null;
+}
+
+export interface LoadGameContextOptions {
+  // Stored recaps, for head-to-head history older than the current season
+  archive?: StoredGame[];
+}
+
+export interface LoadedGameContext {
+  context: GameContext;
+  // Same meaning as on getGameData, the caller decides whether partial data is usable
+  failures: GameDataFailure[];
+  warnings: SchemaWarning[];
+}
+
+export function getGameMetadata(game: Game, scoring: GameData["scoring"]): GameMetadata {
+  const team = getTeamConfig();
+  const isLeafsHome = game.homeTeam.abbrev === team.abbrev;
+  const us = isLeafsHome ? game.homeTeam : game.awayTeam;
+  const them = isLeafsHome ? game.awayTeam : game.homeTeam;
+  const leafsScore = us.score ?? 0;
+  const opponentScore = them.score ?? 0;
+
+  return {
+    teamAbbrev: team.abbrev,
+    isLeafsHome,
+    opponent: them.placeName.default,
+    opponentAbbrev: them.abbrev,
+    leafsScore,
+    opponentScore,
+    didLose: leafsScore < opponentScore,
+    wasOT: scoring.some((p) => p.periodDescriptor.periodType === "OT"),
+    wasSO: scoring.some((p) => p.periodDescriptor.periodType === "SO"),
+  };
+}
+
+export async function loadGameContext(
+  game: Game,
+  client: NhlApiClient = nhlApi,
+  options: LoadGameContextOptions = {}
+): Promise<LoadedGameContext> {
+  const archive = options.archive ?? [];
+  // A missing schedule only costs us the history, it isn't a data failure
+  const [{ failures, warnings, ...data }, season] = await Promise.all([
+    getGameData(game.id, client),
+    getSeason(client),
+  ]);
+  const metadata = getGameMetadata(game, data.scoring);
+  const history = season || archive.length > 0
+    ? buildHistoricalContext(currentResult(game, metadata), season, archive)
+    : null;
+
+  return {
+    context: { ...data, game, metadata, history },
+    failures,
+    warnings,
+  };
+}
@@ -0,0 +1,84 @@
+// Game flow: cumulative shot attempts and score differential over regulation
+// and overtime, from the tracked team's point of view.
+
+import type { GameTimeline } from "./play-by-play";
+
+export interface FlowPoint {
+  seconds: number;
+  teamAttempts: number;
+  opponentAttempts: number;
+  // Tracked team's goals minus the opponent's
+  scoreDiff: number;
+}
+
+export interface FlowAnnotation {
+  seconds: number;
+  type: "goal" | "penalty";
+  ours: boolean;
+  label: string;
+}
+
+export interface GameFlow {
+  teamAbbrev: string;
+  opponentAbbrev: string;
+  points: FlowPoint[];
+  annotations: FlowAnnotation[];
+  periodStarts: { seconds: number; label: string }[];
+  endSeconds: number;
+}
+
+const REGULATION_SECONDS = 3 * 20 * 60;
+
+export function buildGameFlow(timeline: GameTimeline, teamAbbrev: string): GameFlow {
+  const side = timeline.home.abbrev === teamAbbrev ? "home" : "away";
+  const opponentAbbrev = side === "home" ? timeline.away.abbrev : timeline.home.abbrev;
+
+  const points: FlowPoint[] = [{ seconds: 0, teamAttempts: 0, opponentAttempts: 0, scoreDiff: 0 }];
+  let teamAttempts = 0;
+  let opponentAttempts = 0;
+  let scoreDiff = 0;
+
+  // Shots are already in game order and exclude the shootout
+  for (const shot of timeline.shots) {
+    const ours = shot.side === side;
+    if (ours) teamAttempts++;
+    else opponentAttempts++;
+    if (shot.kind === "goal") scoreDiff += ours ? 1 : -1;
+    points.push({ seconds: shot.elapsedSeconds, teamAttempts, opponentAttempts, scoreDiff });
+  }
+
+  const annotations: FlowAnnotation[] = [];
+  for (const ev of timeline.events) {
+    if (ev.period === "SO") continue;
+    const ours = ev.side === side;
+    if (ev.type === "goal") {
+      annotations.push({
+        seconds: ev.elapsedSeconds,
+        type: "goal",
+        ours,
+        label: `${ev.period} ${ev.timeInPeriod} ${ev.teamAbbrev} goal: ${ev.scorer?.name ?? "unknown"}`,
+      });
+    } else if (ev.type === "penalty") {
+      annotations.push({
+        seconds: ev.elapsedSeconds,
+        type: "penalty",
+        ours,
+        label: `${ev.period} ${ev.timeInPeriod} ${ev.teamAbbrev} penalty: ${ev.committedBy?.name ?? "Team"} (${ev.descKey}, ${ev.duration}min)`,
+      });
+    }
+  }
+
+  const lastSeconds = Math.max(
+    0,
+    ...points.map((p) => p.seconds),
+    ...annotations.map((a) => a.seconds)
+  );
+  const endSeconds = Math.max(REGULATION_SECONDS, lastSeconds);
+  points.push({ seconds: endSeconds, teamAttempts, opponentAttempts, scoreDiff });
+
+  const periodStarts = timeline.periods
+    .filter((p) => p.periodType !== "SO")
+    .map((p) => ({ seconds: (p.number - 1) * 20 * 60, label: p.label }));
+
+  return { teamAbbrev, opponentAbbrev, points, annotations, periodStarts, endSeconds };
+}
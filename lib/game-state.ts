@@ -0,0 +1,82 @@
+import type { Game } from "./nhl-types";
+
+// What a game's gameState/gameScheduleState pair means for us. "unknown" is
+// deliberately not treated as live, so a state the NHL invents later can't
+// block the cron forever.
+export type GameStatus =
+  | "scheduled"
+  | "pregame"
+  | "live"
+  | "final"
+  | "postponed"
+  | "suspended"
+  | "cancelled"
+  | "unknown";
+
+const GAME_STATES: Record<string, GameStatus> = {
+  FUT: "scheduled",
+  PRE: "pregame",
+  LIVE: "live",
+  CRIT: "live",
+  FINAL: "final",
+  OFF: "final",
+  // The schedule endpoint has reported these in gameState as well as gameScheduleState
+  PPD: "postponed",
+  SUSP: "suspended",
+  CNCL: "cancelled",
+};
+
+// gameScheduleState overrides gameState, a postponed game still reads FUT
+const SCHEDULE_STATES: Record<string, GameStatus> = {
+  PPD: "postponed",
+  SUSP: "suspended",
+  CNCL: "cancelled",
+};
+
+export function getGameStatus(game: Pick<Game, "gameState" | "gameScheduleState">): GameStatus {
+  const scheduleStatus = game.gameScheduleState ? SCHEDULE_STATES[game.gameScheduleState] : undefined;
+  return scheduleStatus ?? GAME_STATES[game.gameState] ?? "unknown";
+}
+
+export const isFinal = (game: Game) => getGameStatus(game) === "final";
+export const isLive = (game: Game) => getGameStatus(game) === "live";
+export const isUpcoming = (game: Game) => {
+  const status = getGameStatus(game);
+  return status === "scheduled" || status === "pregame";
+};
+// Games that will not finish on their original date, if ever
+export const isOffSchedule = (game: Game) => {
+  const status = getGameStatus(game);
+  return status === "postponed" || status === "suspended" || status === "cancelled";
+};
+
+// Preseason (1) and anything other than regular season (2) or playoffs (3)
+export function isExhibition(game: Pick<Game, "gameType">): boolean {
+  return game.gameType !== 2 && game.gameType !== 3;
+}
+
+export function getGameTypeLabel(game: Pick<Game, "gameType">): string | null {
+  switch (game.gameType) {
+    case 1:
+      return "Preseason";
+    case 2:
+      return null;
+    case 3:
+      return "Playoffs";
+    default:
+      return "Exhibition";
+  }
+}
+
+export function getOffScheduleLabel(game: Game): string | null {
+  switch (getGameStatus(game)) {
+    case "postponed":
+      return "Postponed";
+    case "suspended":
+      return "Suspended";
+    case "cancelled":
+      return "Cancelled";
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,133 @@
+// Goalie pulls from the goalie digits of situationCode. Every stretch a team
+// played without its goalie is a pull, whether for an extra attacker late or
+// during a delayed penalty.
+
+import type { GoalEvent, SituationSegment, TeamSide, TimelineEvent } from "./play-by-play";
+import { decodeSituation, formatSeconds } from "./special-teams";
+
+export interface GoaliePull {
+  side: TeamSide;
+  teamAbbrev: string;
+  startSeconds: number;
+  endSeconds: number;
+  period: string;
+  // Clock in the period when the goalie went to the bench
+  timeInPeriod: string;
+  // Left in that period, absent on pulls stored before it was kept
+  timeLeft?: string;
+  // Pulling team's goals minus the opponent's when the goalie went off
+  scoreDiff: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  // Ended with a penalty called on the opponent, so the goalie was off for a delayed call
+  delayedPenalty: boolean;
+}
+
+const PERIOD_SECONDS = 20 * 60;
+const REGULATION_SECONDS = 3 * PERIOD_SECONDS;
+
+// elapsedSeconds counts every period as 20 minutes, overtimes included, so
+// playoff overtimes past the first come out as 2OT, 3OT and so on
+function clockAt(seconds: number, periodLengths: Record<number, number>): Pick<GoaliePull, "period" | "timeInPeriod" | "timeLeft"> {
+  const number = Math.floor(seconds / PERIOD_SECONDS) + 1;
+  const intoPeriod = seconds - (number - 1) * PERIOD_SECONDS;
+  const length = periodLengths[number] ?? PERIOD_SECONDS;
+  return {
+    period: number > 4 ? `${number - 3}OT` : number === 4 ? "OT" : `P${number}`,
+    timeInPeriod: formatSeconds(intoPeriod).padStart(5, "0"),
+    timeLeft: formatSeconds(Math.max(length - intoPeriod, 0)),
+  };
+}
+
+// Needs the segments and key events from the timeline, and is called while it's being built
+export function findGoaliePulls(
+  situations: SituationSegment[],
+  events: TimelineEvent[],
+  abbrevs: Record<TeamSide, string>,
+  // Seconds per period number, anything missing is taken as 20 minutes
+  periodLengths: Record<number, number> = {}
+): GoaliePull[] {
+  const pulls: GoaliePull[] = [];
+  const goals = events.filter((ev): ev is GoalEvent => ev.type === "goal" && ev.period !== "SO");
+
+  for (const side of ["away", "home"] as TeamSide[]) {
+    let open: GoaliePull | null = null;
+    for (const segment of situations) {
+      const pulled = !decodeSituation(segment.situationCode, side).teamGoalieIn;
+      if (pulled && open && open.endSeconds === segment.startSeconds) {
+        open.endSeconds = segment.endSeconds;
+        continue;
+      }
+      if (!pulled) {
+        open = null;
+        continue;
+      }
+      // Score going in is the last goal at or before the pull
+      const before = goals.filter((g) => g.elapsedSeconds <= segment.startSeconds).pop();
+      const otherSide: TeamSide = side === "home" ? "away" : "home";
+      open = {
+        side,
+        teamAbbrev: abbrevs[side],
+        startSeconds: segment.startSeconds,
+        endSeconds: segment.endSeconds,
+        ...clockAt(segment.startSeconds, periodLengths),
+        scoreDiff: before ? before.score[side] - before.score[otherSide] : 0,
+        goalsFor: 0,
+        goalsAgainst: 0,
+        delayedPenalty: false,
+      };
+      pulls.push(open);
+    }
+  }
+
+  // A goal belongs to a pull when its own situationCode still has that goalie out
+  for (const goal of goals) {
+    for (const pull of pulls) {
+      if (goal.elapsedSeconds < pull.startSeconds || goal.elapsedSeconds > pull.endSeconds) continue;
+      if (decodeSituation(goal.situationCode, pull.side).teamGoalieIn) continue;
+      if (goal.side === pull.side) pull.goalsFor++;
+      else pull.goalsAgainst++;
+    }
+  }
+
+  for (const pull of pulls) {
+    pull.delayedPenalty = events.some((ev) =>
+      ev.type === "penalty" && ev.side !== pull.side && ev.elapsedSeconds === pull.endSeconds
+    );
+  }
+
+  return pulls.sort((a, b) => a.startSeconds - b.startSeconds);
+}
+
+// Every pull except the ones that only lasted until a delayed penalty was called
+export function isExtraAttackerPull(pull: GoaliePull): boolean {
+  return !pull.delayedPenalty;
+}
+
+// The textbook pull, trailing in the third, which gets called out as such
+export function isLateTrailingPull(pull: GoaliePull): boolean {
+  return isExtraAttackerPull(pull)
+    && pull.scoreDiff < 0
+    && pull.startSeconds >= REGULATION_SECONDS - PERIOD_SECONDS
+    && pull.startSeconds < REGULATION_SECONDS;
+}
+
+export function pullTimeLeft(pull: GoaliePull): string {
+  // Older stored pulls only have the clock, and were all 20-minute periods or close enough
+  const [min, sec] = pull.timeInPeriod.split(":").map((n) => parseInt(n, 10));
+  return pull.timeLeft ?? formatSeconds(Math.max(PERIOD_SECONDS - ((min || 0) * 60 + (sec || 0)), 0));
+}
+
+export function describePullScore(scoreDiff: number): string {
+  if (scoreDiff === 0) return "tied";
+  return scoreDiff < 0 ? `down ${-scoreDiff}` : `up ${scoreDiff}`;
+}
+
+export function renderGoaliePulls(pulls: GoaliePull[]): string {
+  const lines = pulls.filter(isExtraAttackerPull).map((pull) => {
+    const seconds = pull.endSeconds - pull.startSeconds;
+    const late = isLateTrailingPull(pull) ? ", trailing late in the third" : "";
+    return `${pull.teamAbbrev} pulled the goalie ${describePullScore(pull.scoreDiff)} at ${pull.period} ${pull.timeInPeriod} (${pullTimeLeft(pull)} left in ${pull.period}${late}), ${formatSeconds(seconds)} of extra-attacker time, ${pull.goalsFor} goals for, ${pull.goalsAgainst} against`;
+  });
+  return lines.length > 0 ? lines.join("\n") : "Neither team pulled its goalie for an extra attacker";
+}
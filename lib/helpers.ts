@@ -1,6 +1,6 @@
 import type { ScoringPeriod, GoalAssist } from "./nhl-types";
 
-export function getPeriodLabel(period: ScoringPeriod): string {
+export function getPeriodLabel(period: Pick<ScoringPeriod, "periodDescriptor">): string {
   const { number, periodType } = period.periodDescriptor;
   if (periodType === "OT") return "OT";
   if (periodType === "SO") return "SO";
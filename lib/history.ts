@@ -0,0 +1,250 @@
+// Where a game sits in the bigger picture: streaks, recent form, the season
+// record and the history against this opponent. The season schedule covers the
+// current season, the stored archive reaches back further for head-to-head.
+
+import type { Game, StoredGame } from "./nhl-types";
+import type { DecidedIn, GameResult, Season, TeamRecord } from "./season";
+import { formatRecord, getSeasonDates, getSeasonPhase } from "./season";
+import type { GameMetadata } from "./game-context";
+import { getTeamConfig } from "./team";
+
+export interface PastResult {
+  gameId: number;
+  gameDate: string;
+  // Null for archived games stored before the abbreviation was kept
+  opponentAbbrev: string | null;
+  opponent: string;
+  isHome: boolean;
+  playoffs: boolean;
+  result: GameResult;
+  teamScore: number;
+  opponentScore: number;
+  decidedIn: DecidedIn;
+}
+
+export interface Streak {
+  // Overtime and shootout losses extend a losing streak
+  kind: "W" | "L";
+  count: number;
+}
+
+export interface HeadToHead {
+  // Earliest meeting we know about
+  since: string;
+  record: TeamRecord;
+  streak: Streak;
+}
+
+// In a recap every count includes the game being recapped, in a preview they stop before it
+export interface HistoricalContext {
+  streak: Streak | null;
+  lastTen: TeamRecord | null;
+  // The playoff record once the game is a playoff game
+  playoffs: boolean;
+  season: TeamRecord | null;
+  headToHead: HeadToHead | null;
+  previousMeeting: PastResult | null;
+}
+
+const LAST_N = 10;
+
+function fromSeason(season: Season): PastResult[] {
+  return season.games
+    .filter((g) => g.result && (g.phase === "regular" || g.phase === "playoffs"))
+    .map((g) => ({
+      gameId: g.game.id,
+      gameDate: g.game.gameDate,
+      opponentAbbrev: g.opponentAbbrev,
+      opponent: g.opponent,
+      isHome: g.isHome,
+      playoffs: g.phase === "playoffs",
+      result: g.result!,
+      teamScore: g.teamScore ?? 0,
+      opponentScore: g.opponentScore ?? 0,
+      decidedIn: g.decidedIn ?? "REG",
+    }));
+}
+
+// The archive doesn't know which games were playoff games, so they all count as
+// regular season and an overtime loss there always reads as OTL
+function fromArchive(game: StoredGame): PastResult {
+  const decidedIn: DecidedIn = game.wasSO ? "SO" : game.wasOT ? "OT" : "REG";
+  return {
+    gameId: game.gameId,
+    gameDate: game.gameDate,
+    opponentAbbrev: game.opponentAbbrev ?? null,
+    opponent: game.opponent,
+    isHome: game.isLeafsHome,
+    playoffs: false,
+    result: !game.didLose ? "W" : decidedIn === "REG" ? "L" : "OTL",
+    teamScore: game.leafsScore,
+    opponentScore: game.opponentScore,
+    decidedIn,
+  };
+}
+
+function recordOf(results: PastResult[]): TeamRecord {
+  const wins = results.filter((r) => r.result === "W").length;
+  const losses = results.filter((r) => r.result === "L").length;
+  const otLosses = results.filter((r) => r.result === "OTL").length;
+  const goalsFor = results.reduce((sum, r) => sum + r.teamScore, 0);
+  const goalsAgainst = results.reduce((sum, r) => sum + r.opponentScore, 0);
+  return {
+    gamesPlayed: results.length,
+    wins,
+    losses,
+    otLosses,
+    points: wins * 2 + otLosses,
+    goalsFor,
+    goalsAgainst,
+    goalDifferential: goalsFor - goalsAgainst,
+  };
+}
+
+// Results are oldest first, the streak runs back from the newest
+function streakOf(results: PastResult[]): Streak | null {
+  const kindOf = (r: PastResult) => (r.result === "W" ? "W" : "L");
+  const last = results[results.length - 1];
+  if (!last) return null;
+  let count = 0;
+  for (let i = results.length - 1; i >= 0 && kindOf(results[i]) === kindOf(last); i--) count++;
+  return { kind: kindOf(last), count };
+}
+
+interface Subject {
+  gameId: number;
+  gameDate: string;
+  opponentAbbrev: string | null;
+  opponent: string;
+  playoffs: boolean;
+}
+
+function summarize(subject: Subject, season: Season | null, archive: StoredGame[], current: PastResult | null): HistoricalContext {
+  // The schedule wins over the archive, it knows the phase and the opponent's abbreviation
+  const byId = new Map<number, PastResult>();
+  for (const game of archive) byId.set(game.gameId, fromArchive(game));
+  for (const result of season ? fromSeason(season) : []) byId.set(result.gameId, result);
+  if (current) byId.set(current.gameId, current);
+
+  const results = Array.from(byId.values())
+    .filter((r) => r.gameDate <= subject.gameDate)
+    .sort((a, b) => a.gameDate.localeCompare(b.gameDate) || a.gameId - b.gameId);
+
+  // "New York" is two teams, so an archived game with only a place name can't
+  // count towards head-to-head when the name is ambiguous
+  const abbrevsByName = new Map<string, Set<string>>();
+  for (const r of results) {
+    if (!r.opponentAbbrev) continue;
+    abbrevsByName.set(r.opponent, (abbrevsByName.get(r.opponent) ?? new Set()).add(r.opponentAbbrev));
+  }
+  const sameOpponent = (r: PastResult) =>
+    r.opponentAbbrev && subject.opponentAbbrev
+      ? r.opponentAbbrev === subject.opponentAbbrev
+      : r.opponent === subject.opponent && (abbrevsByName.get(r.opponent)?.size ?? 0) <= 1;
+  const meetings = results.filter(sameOpponent);
+  const earlierMeetings = meetings.filter((r) => r.gameId !== subject.gameId);
+
+  // Streaks and recent form reset with the season, head-to-head doesn't. Without
+  // the schedule the archive's games in the same season's dates stand in for it.
+  const seasonIds = new Set(season ? fromSeason(season).map((r) => r.gameId) : []);
+  seasonIds.add(subject.gameId);
+  const { start, end } = getSeasonDates(subject.gameDate);
+  const seasonResults = season
+    ? results.filter((r) => seasonIds.has(r.gameId))
+    : results.filter((r) => r.gameDate >= start && r.gameDate <= end);
+
+  return {
+    streak: streakOf(seasonResults),
+    lastTen: seasonResults.length > 0 ? recordOf(seasonResults.slice(-LAST_N)) : null,
+    playoffs: subject.playoffs,
+    season: season ? recordOf(seasonResults.filter((r) => r.playoffs === subject.playoffs)) : null,
+    headToHead: meetings.length > 0
+      ? { since: meetings[0].gameDate, record: recordOf(meetings), streak: streakOf(meetings)! }
+      : null,
+    previousMeeting: earlierMeetings[earlierMeetings.length - 1] ?? null,
+  };
+}
+
+export function buildHistoricalContext(
+  current: PastResult,
+  season: Season | null,
+  archive: StoredGame[]
+): HistoricalContext {
+  return summarize(current, season, archive, current);
+}
+
+// Same picture ahead of a game, from the results before it
+export function buildUpcomingHistory(game: Game, season: Season | null, archive: StoredGame[]): HistoricalContext {
+  const isHome = game.homeTeam.abbrev === getTeamConfig().abbrev;
+  const them = isHome ? game.awayTeam : game.homeTeam;
+  return summarize(
+    {
+      gameId: game.id,
+      gameDate: game.gameDate,
+      opponentAbbrev: them.abbrev,
+      opponent: them.placeName.default,
+      playoffs: getSeasonPhase(game) === "playoffs",
+    },
+    season,
+    archive,
+    null
+  );
+}
+
+// The game being recapped, in the same shape as the ones before it
+export function currentResult(game: Game, metadata: GameMetadata): PastResult {
+  const decidedIn: DecidedIn = metadata.wasSO ? "SO" : metadata.wasOT ? "OT" : "REG";
+  const playoffs = getSeasonPhase(game) === "playoffs";
+  return {
+    gameId: game.id,
+    gameDate: game.gameDate,
+    opponentAbbrev: metadata.opponentAbbrev,
+    opponent: metadata.opponent,
+    isHome: metadata.isLeafsHome,
+    playoffs,
+    // No loser point in the playoffs, same as toSeasonGame
+    result: !metadata.didLose ? "W" : decidedIn === "REG" || playoffs ? "L" : "OTL",
+    teamScore: metadata.leafsScore,
+    opponentScore: metadata.opponentScore,
+    decidedIn,
+  };
+}
+
+const describeStreak = (s: Streak) =>
+  s.count === 1
+    ? s.kind === "W" ? "won the last one" : "lost the last one"
+    : s.kind === "W" ? `won ${s.count} straight` : `lost ${s.count} straight`;
+
+const suffix = (d: DecidedIn) => (d === "REG" ? "" : ` (${d})`);
+
+// Every number pair renderHistoricalContext can put in front of the model, as
+// "a-b" with the records both with and without the overtime losses folded in
+export function historicalScorelines(history: HistoricalContext): string[] {
+  const records = [history.lastTen, history.season, history.headToHead?.record].filter((r): r is TeamRecord => r !== null && r !== undefined);
+  const pairs = records.flatMap((r) => [
+    [r.wins, r.losses],
+    [r.wins, r.losses + r.otLosses],
+    [r.losses, r.otLosses],
+  ]);
+  if (history.previousMeeting) {
+    pairs.push([history.previousMeeting.teamScore, history.previousMeeting.opponentScore]);
+  }
+  return pairs.map(([a, b]) => `${a}-${b}`);
+}
+
+export function renderHistoricalContext(history: HistoricalContext, opponent: string): string {
+  const lines: string[] = [];
+  if (history.streak) lines.push(`- Streak: ${describeStreak(history.streak)}`);
+  if (history.lastTen) lines.push(`- Last ${history.lastTen.gamesPlayed}: ${formatRecord(history.lastTen)}`);
+  if (history.season) lines.push(`- ${history.playoffs ? "Playoffs" : "Season"}: ${formatRecord(history.season)}, ${history.season.points} pts`);
+  if (history.headToHead) {
+    const { since, record, streak } = history.headToHead;
+    lines.push(`- Against ${opponent} since ${since}: ${formatRecord(record)}, ${describeStreak(streak)}`);
+  }
+  if (history.previousMeeting) {
+    const p = history.previousMeeting;
+    const verb = p.result === "W" ? "won" : "lost";
+    lines.push(`- Previous meeting (${p.gameDate}, ${p.isHome ? "home" : "away"}): ${verb} ${p.teamScore}-${p.opponentScore}${suffix(p.decidedIn)}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,113 @@
+// Intermission reports. While a game is on the cron watches for the end of each
+// period and writes a short take from the play-by-play so far. The reports are
+// kept in period order next to the game and move onto its recap once it's final.
+
+import type { Game, GameLanding, PlayByPlayResponse } from "./nhl-types";
+import { getTeamConfig } from "./team";
+import type { TeamConfig } from "./team";
+import { getPeriodLabel } from "./helpers";
+import { buildGameTimeline, renderTimelineNarrative } from "./play-by-play";
+import type { ReviewGenerator } from "./review-generator";
+import { generateWithStyleRules, resolveReviewGenerator } from "./review";
+import type { ReviewPrompt } from "./review";
+import { getStyleRules, houseRulesInstruction } from "./style-rules";
+import type { StyleRuleId } from "./style-rules";
+import { DEFAULT_PERSONA, PERSONAS } from "./personas";
+import type { Persona } from "./personas";
+
+// The period the landing says just ended, null unless the game is between periods
+export function getIntermissionPeriod(landing: GameLanding): number | null {
+  if (!landing.clock?.inIntermission || !landing.periodDescriptor) return null;
+  return landing.periodDescriptor.number;
+}
+
+// Periods the play-by-play has a period-end event for, in order
+export function getEndedPeriods(pbp: PlayByPlayResponse): number[] {
+  const ended = pbp.plays
+    .filter((p) => p.typeDescKey === "period-end")
+    .map((p) => p.periodDescriptor.number);
+  return [...new Set(ended)].sort((a, b) => a - b);
+}
+
+export interface IntermissionContext {
+  game: Game;
+  isLeafsHome: boolean;
+  opponent: string;
+  period: { number: number; periodType: string };
+  periodLabel: string;
+  teamScore: number;
+  opponentScore: number;
+  // distillPlayByPlay up to the end of the period, not a play further
+  playByPlay: string;
+}
+
+export function buildIntermissionContext(
+  game: Game,
+  pbp: PlayByPlayResponse,
+  period: number,
+  team: TeamConfig = getTeamConfig()
+): IntermissionContext {
+  const isLeafsHome = game.homeTeam.abbrev === team.abbrev;
+  // A late run can see the next period under way, the report is about the one that ended
+  const plays = pbp.plays.filter((p) => p.periodDescriptor.number <= period);
+  const timeline = buildGameTimeline({ ...pbp, plays });
+  const periodEnd = plays.find((p) => p.typeDescKey === "period-end" && p.periodDescriptor.number === period);
+  const periodDescriptor = periodEnd?.periodDescriptor ?? { number: period, periodType: "REG" };
+
+  return {
+    game,
+    isLeafsHome,
+    opponent: (isLeafsHome ? game.awayTeam : game.homeTeam).placeName.default,
+    period: periodDescriptor,
+    periodLabel: getPeriodLabel({ periodDescriptor }),
+    teamScore: isLeafsHome ? timeline.finalScore.home : timeline.finalScore.away,
+    opponentScore: isLeafsHome ? timeline.finalScore.away : timeline.finalScore.home,
+    playByPlay: renderTimelineNarrative(timeline, team.abbrev),
+  };
+}
+
+export function buildIntermissionPrompt(
+  context: IntermissionContext,
+  persona: Persona = PERSONAS[DEFAULT_PERSONA],
+  team: TeamConfig = getTeamConfig()
+): ReviewPrompt {
+  const label = context.periodLabel;
+
+  const systemInstruction = `${persona.voice(team)} This time the game isn't over, it's the intermission after ${label}, so you're writing a quick take on the game so far instead of a recap.
+
+${houseRulesInstruction(team)}
+
+Write two or three sentences on how the game has gone so far. Use only the facts in the data and don't predict how it ends. No headers or titles, just the take.`;
+
+  const prompt = `GAME SO FAR:
+- ${team.shortName} ${context.isLeafsHome ? "at home vs" : "on the road against"} ${context.opponent}
+- After ${label}: ${team.shortName} ${context.teamScore}, ${context.opponent} ${context.opponentScore}
+
+${context.playByPlay}`;
+
+  return { systemInstruction, prompt };
+}
+
+export interface GeneratedIntermissionReport {
+  report: string | null;
+  styleRulesHit: StyleRuleId[];
+}
+
+export async function generateIntermissionReport(
+  context: IntermissionContext,
+  options: { generator?: ReviewGenerator; persona?: Persona } = {}
+): Promise<GeneratedIntermissionReport> {
+  const persona = options.persona ?? PERSONAS[DEFAULT_PERSONA];
+
+  const backend = resolveReviewGenerator(options.generator);
+  if (!backend) return { report: null, styleRulesHit: [] };
+
+  const rules = [...getStyleRules(), ...(persona.styleRules ?? [])];
+  const { text, styleRulesHit } = await generateWithStyleRules(
+    backend,
+    buildIntermissionPrompt(context, persona),
+    rules,
+    "intermission report"
+  );
+  return { report: text, styleRulesHit };
+}
@@ -0,0 +1,192 @@
+// Score state over time from the tracked team's point of view: how long they
+// led, trailed and were tied, which leads got blown, and the goals that
+// decided things late.
+
+import type { GameTimeline, GoalEvent, TeamSide } from "./play-by-play";
+import { decodeSituation, formatSeconds } from "./special-teams";
+
+export interface BlownLead {
+  // True when the tracked team was the one that blew it
+  ours: boolean;
+  lead: number;
+  period: string;
+  timeInPeriod: string;
+  // Where the lead was lost, i.e. the goal that tied it or put them behind
+  lostPeriod: string;
+  lostTimeInPeriod: string;
+}
+
+export interface KeyGoal {
+  ours: boolean;
+  teamAbbrev: string;
+  period: string;
+  timeInPeriod: string;
+  scorer: string;
+  // Score from the tracked team's side after the goal, e.g. "3-2"
+  score: string;
+  // Inside the last two minutes of regulation
+  late: boolean;
+  tying: boolean;
+  goAhead: boolean;
+  // Scored with their own goalie pulled for the extra attacker
+  extraAttacker: boolean;
+}
+
+export interface LeadSummary {
+  teamAbbrev: string;
+  opponentAbbrev: string;
+  secondsLeading: number;
+  secondsTrailing: number;
+  secondsTied: number;
+  largestLead: number;
+  largestDeficit: number;
+  leadChanges: number;
+  blownLeads: BlownLead[];
+  // Won after trailing by this many, null if they never trailed or didn't win
+  comebackFrom: number | null;
+  // Lost after leading by this many, null if they never led or didn't lose
+  collapseFrom: number | null;
+  keyGoals: KeyGoal[];
+  won: boolean | null;
+  decidedIn: "REG" | "OT" | "SO";
+}
+
+const REGULATION_SECONDS = 3 * 20 * 60;
+const LATE_SECONDS = 2 * 60;
+
+function gameEndSeconds(timeline: GameTimeline, goals: GoalEvent[]): number {
+  const lastSituation = timeline.situations[timeline.situations.length - 1]?.endSeconds ?? 0;
+  const lastGoal = goals[goals.length - 1]?.elapsedSeconds ?? 0;
+  return Math.max(REGULATION_SECONDS, lastSituation, lastGoal);
+}
+
+export function computeLeadSummary(timeline: GameTimeline, teamAbbrev: string): LeadSummary {
+  const side: TeamSide = timeline.home.abbrev === teamAbbrev ? "home" : "away";
+  const otherSide: TeamSide = side === "home" ? "away" : "home";
+  const allGoals = timeline.events.filter((ev): ev is GoalEvent => ev.type === "goal");
+  const goals = allGoals.filter((ev) => ev.period !== "SO");
+  const shootoutGoals = allGoals.filter((ev) => ev.period === "SO");
+
+  const summary: LeadSummary = {
+    teamAbbrev,
+    opponentAbbrev: timeline[otherSide].abbrev,
+    secondsLeading: 0,
+    secondsTrailing: 0,
+    secondsTied: 0,
+    largestLead: 0,
+    largestDeficit: 0,
+    leadChanges: 0,
+    blownLeads: [],
+    comebackFrom: null,
+    collapseFrom: null,
+    keyGoals: [],
+    won: null,
+    decidedIn: "REG",
+  };
+
+  let diff = 0;
+  let since = 0;
+  // Sign of whoever led last, ties don't reset it
+  let lastLeader = 0;
+  // The biggest lead of the current leading stretch, for whichever team holds it
+  let stretch: { lead: number; period: string; timeInPeriod: string } | null = null;
+
+  const addTime = (until: number) => {
+    const seconds = Math.max(0, until - since);
+    if (diff > 0) summary.secondsLeading += seconds;
+    else if (diff < 0) summary.secondsTrailing += seconds;
+    else summary.secondsTied += seconds;
+    since = until;
+  };
+
+  for (const goal of goals) {
+    addTime(goal.elapsedSeconds);
+    const ours = goal.side === side;
+    const before = diff;
+    // Prefer the score on the event, goals can be missing from a partial feed
+    diff = goal.score[side] - goal.score[otherSide];
+
+    if (before !== 0 && Math.sign(diff) !== Math.sign(before)) {
+      if (stretch) {
+        summary.blownLeads.push({
+          ours: before > 0,
+          lead: stretch.lead,
+          period: stretch.period,
+          timeInPeriod: stretch.timeInPeriod,
+          lostPeriod: goal.period,
+          lostTimeInPeriod: goal.timeInPeriod,
+        });
+      }
+      stretch = null;
+    }
+    if (diff !== 0 && Math.abs(diff) > (stretch?.lead ?? 0)) {
+      stretch = { lead: Math.abs(diff), period: goal.period, timeInPeriod: goal.timeInPeriod };
+    }
+    if (diff !== 0) {
+      if (lastLeader !== 0 && Math.sign(diff) !== lastLeader) summary.leadChanges++;
+      lastLeader = Math.sign(diff);
+    }
+
+    summary.largestLead = Math.max(summary.largestLead, diff);
+    summary.largestDeficit = Math.max(summary.largestDeficit, -diff);
+
+    const extraAttacker = !decodeSituation(goal.situationCode, goal.side).teamGoalieIn;
+    const late = goal.elapsedSeconds >= REGULATION_SECONDS - LATE_SECONDS && goal.elapsedSeconds <= REGULATION_SECONDS;
+    const tying = diff === 0;
+    const goAhead = before === 0 && diff !== 0;
+    if (late || (tying && extraAttacker)) {
+      summary.keyGoals.push({
+        ours,
+        teamAbbrev: goal.teamAbbrev,
+        period: goal.period,
+        timeInPeriod: goal.timeInPeriod,
+        scorer: goal.scorer?.name ?? "unknown",
+        score: `${goal.score[side]}-${goal.score[otherSide]}`,
+        late,
+        tying,
+        goAhead,
+        extraAttacker,
+      });
+    }
+  }
+  addTime(gameEndSeconds(timeline, goals));
+
+  if (diff !== 0) {
+    summary.won = diff > 0;
+    summary.decidedIn = goals.length > 0 && goals[goals.length - 1].elapsedSeconds > REGULATION_SECONDS ? "OT" : "REG";
+  } else if (shootoutGoals.length > 0) {
+    const ourShootoutGoals = shootoutGoals.filter((g) => g.side === side).length;
+    summary.won = ourShootoutGoals > shootoutGoals.length - ourShootoutGoals;
+    summary.decidedIn = "SO";
+  }
+
+  if (summary.won === true && summary.largestDeficit > 0) summary.comebackFrom = summary.largestDeficit;
+  if (summary.won === false && summary.largestLead > 0) summary.collapseFrom = summary.largestLead;
+
+  return summary;
+}
+
+const goalLabel = (goal: KeyGoal) => {
+  const tags = [
+    goal.late ? "last two minutes" : "",
+    goal.tying ? "tying goal" : goal.goAhead ? "go-ahead goal" : "",
+    goal.extraAttacker ? "goalie pulled" : "",
+  ].filter(Boolean).join(", ");
+  return `${goal.period} ${goal.timeInPeriod}: ${goal.teamAbbrev} goal by ${goal.scorer}, ${goal.score} (${tags})`;
+};
+
+export function renderLeadSummary(summary: LeadSummary): string {
+  const team = summary.teamAbbrev;
+  const lines = [
+    `${team} led for ${formatSeconds(summary.secondsLeading)}, trailed for ${formatSeconds(summary.secondsTrailing)}, tied for ${formatSeconds(summary.secondsTied)}`,
+    `Largest ${team} lead: ${summary.largestLead}, largest deficit: ${summary.largestDeficit}, lead changes: ${summary.leadChanges}`,
+  ];
+  for (const blown of summary.blownLeads) {
+    const who = blown.ours ? team : summary.opponentAbbrev;
+    lines.push(`${who} blew a ${blown.lead}-goal lead (peaked at ${blown.period} ${blown.timeInPeriod}, gone at ${blown.lostPeriod} ${blown.lostTimeInPeriod})`);
+  }
+  if (summary.comebackFrom !== null) lines.push(`${team} came back from ${summary.comebackFrom} down to win`);
+  if (summary.collapseFrom !== null) lines.push(`${team} lost after leading by ${summary.collapseFrom}`);
+  for (const goal of summary.keyGoals) lines.push(goalLabel(goal));
+  return lines.join("\n");
+}
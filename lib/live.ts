@@ -0,0 +1,78 @@
+// Live score for the home page. The page is built statically after each game,
+// so while one is on a route handler serves this and the browser polls it.
+
+import type { Game, GameLanding, IntermissionReport } from "./nhl-types";
+import { getScheduleData, nhlApi } from "./nhl-api";
+import type { NhlApiClient } from "./nhl-api";
+import { getTeamConfig } from "./team";
+
+export interface LiveGameState {
+  gameId: number;
+  status: "live" | "final";
+  opponent: string;
+  isHome: boolean;
+  teamScore: number;
+  opponentScore: number;
+  // "P2", "OT" or "SO" while live, "OT" or "SO" on a final that needed it
+  periodLabel: string | null;
+  // "12:34", null once final or when the landing didn't come back
+  clock: string | null;
+  inIntermission: boolean;
+  // Reports written so far, filled in by the route since they live in Blobs
+  intermissions?: IntermissionReport[];
+}
+
+export interface LiveResponse {
+  // Null when nothing is on and the page already shows the latest result
+  game: LiveGameState | null;
+}
+
+function periodLabel({ number, periodType }: { number: number; periodType: string }): string {
+  if (periodType === "OT") return number > 4 ? `${number - 3}OT` : "OT";
+  if (periodType === "SO") return "SO";
+  return `P${number}`;
+}
+
+export function toLiveState(game: Game, landing: GameLanding | null, status: LiveGameState["status"]): LiveGameState {
+  const isHome = game.homeTeam.abbrev === getTeamConfig().abbrev;
+  // The landing's score moves faster than the schedule's
+  const source = landing ?? game;
+  const us = isHome ? source.homeTeam : source.awayTeam;
+  const them = isHome ? source.awayTeam : source.homeTeam;
+  const decidedIn = game.gameOutcome?.lastPeriodType;
+
+  return {
+    gameId: game.id,
+    status,
+    opponent: them.placeName.default,
+    isHome,
+    teamScore: us.score ?? 0,
+    opponentScore: them.score ?? 0,
+    periodLabel: status === "live"
+      ? landing?.periodDescriptor ? periodLabel(landing.periodDescriptor) : null
+      : decidedIn === "OT" || decidedIn === "SO" ? decidedIn : null,
+    clock: status === "live" ? landing?.clock?.timeRemaining ?? null : null,
+    inIntermission: status === "live" && (landing?.clock?.inIntermission ?? false),
+  };
+}
+
+// shownGameId is the game the static page was built with. A game that finished
+// since then comes back as final so the page can switch over before the rebuild lands.
+export async function getLiveState(shownGameId: number | null, client: NhlApiClient = nhlApi): Promise<LiveResponse> {
+  const schedule = await getScheduleData(client);
+  if (!schedule) {
+    return { game: null };
+  }
+
+  if (schedule.gameInProgress) {
+    const game = schedule.gameInProgress;
+    const landing = await client.getLanding(game.id).then((r) => r.data, () => null);
+    return { game: toLiveState(game, landing, "live") };
+  }
+
+  const latest = schedule.latestCompleted;
+  if (latest && shownGameId !== null && latest.id !== shownGameId) {
+    return { game: toLiveState(latest, null, "final") };
+  }
+  return { game: null };
+}
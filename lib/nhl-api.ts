@@ -3,98 +3,288 @@ import type {
   ScheduleResponse,
   ScheduleData,
   ScoringPeriod,
-  PenaltyPeriod,
-  ThreeStar,
-  PlayerStats,
-  GoalieStats,
   GameLanding,
   BoxscoreResponse,
   PlayByPlayResponse,
+  TeamBoxscore,
+  TeamGameStats,
 } from "./nhl-types";
-import { distillPlayByPlay } from "./play-by-play";
+import { buildGameTimeline, renderTimelineNarrative } from "./play-by-play";
+import type { GameTimeline } from "./play-by-play";
+import { computeSpecialTeams, formatPowerPlay } from "./special-teams";
+import { computeLeadSummary } from "./lead-tracking";
+import { computePlayerImpact } from "./player-impact";
+import { fixtureFetchFromEnv } from "./fixtures";
+import { getTeamConfig } from "./team";
+import { getGameStatus, isFinal, isLive, isOffSchedule, isUpcoming } from "./game-state";
+import {
+  validateScheduleResponse,
+  validateGameLanding,
+  validateBoxscore,
+  validatePlayByPlay,
+  checkScoringConsistency,
+} from "./nhl-validate";
+import type { SchemaWarning, Validated } from "./nhl-validate";
 
-export async function getScheduleData(): Promise<ScheduleData | null> {
-  const res = await fetch(
-    "https://api-web.nhle.com/v1/club-schedule-season/TOR/now"
-  );
+const DEFAULT_BASE_URL = "https://api-web.nhle.com/v1";
 
-  if (!res.ok) {
-    return null;
+export class NhlApiError extends Error {
+  constructor(
+    message: string,
+    readonly url: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "NhlApiError";
+  }
+}
+
+export interface NhlApiClientOptions {
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+  // How long a successful response is reused before hitting the API again
+  cacheTtlMs?: number;
+}
+
+// Every response is validated before it is returned. Critical problems reject
+// with NhlSchemaError, anything recoverable comes back as warnings.
+export interface NhlApiClient {
+  getSchedule(teamAbbrev: string): Promise<Validated<ScheduleResponse>>;
+  getLanding(gameId: number): Promise<Validated<GameLanding>>;
+  getBoxscore(gameId: number): Promise<Validated<BoxscoreResponse>>;
+  getPlayByPlay(gameId: number): Promise<Validated<PlayByPlayResponse>>;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function createNhlApiClient(options: NhlApiClientOptions = {}): NhlApiClient {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, "");
+  // NHL_FIXTURES can swap in record/replay; otherwise resolve the global lazily
+  // so frameworks that patch fetch still see our calls
+  const fetchImpl = options.fetch
+    ?? fixtureFetchFromEnv()
+    ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  const retries = options.retries ?? 2;
+  const retryDelayMs = options.retryDelayMs ?? 500;
+  const cacheTtlMs = options.cacheTtlMs ?? 60_000;
+
+  const cache = new Map<string, { expires: number; promise: Promise<unknown> }>();
+
+  async function fetchOnce(url: string): Promise<unknown> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const res = await fetchImpl(url, { signal: controller.signal });
+      if (!res.ok) {
+        throw new NhlApiError(`NHL API responded ${res.status} for ${url}`, url, res.status);
+      }
+      return await res.json();
+    } catch (error) {
+      if (error instanceof NhlApiError) throw error;
+      const reason = controller.signal.aborted
+        ? `timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+      throw new NhlApiError(`NHL API request failed for ${url}: ${reason}`, url);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
-  const data: ScheduleResponse = await res.json();
+  async function fetchWithRetry(url: string): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fetchOnce(url);
+      } catch (error) {
+        // Only network errors (no status) and 5xx are worth another try
+        const transient = error instanceof NhlApiError && (error.status === undefined || error.status >= 500);
+        if (!transient || attempt >= retries) throw error;
+        await sleep(retryDelayMs * 2 ** attempt);
+      }
+    }
+  }
+
+  function request<T>(path: string, validate: (raw: unknown) => Validated<T>): Promise<Validated<T>> {
+    const url = `${baseUrl}/${path}`;
+    const now = Date.now();
+    const cached = cache.get(url);
+    if (cached && cached.expires > now) {
+      return cached.promise as Promise<Validated<T>>;
+    }
+
+    const promise = fetchWithRetry(url).then(validate);
+    cache.set(url, { expires: now + cacheTtlMs, promise });
+    // Never memoize a failure, the next caller should get a fresh attempt
+    promise.catch(() => {
+      if (cache.get(url)?.promise === promise) cache.delete(url);
+    });
+    return promise;
+  }
+
+  return {
+    getSchedule: (teamAbbrev) => request(`club-schedule-season/${teamAbbrev}/now`, validateScheduleResponse),
+    getLanding: (gameId) => request(`gamecenter/${gameId}/landing`, validateGameLanding),
+    getBoxscore: (gameId) => request(`gamecenter/${gameId}/boxscore`, validateBoxscore),
+    getPlayByPlay: (gameId) => request(`gamecenter/${gameId}/play-by-play`, validatePlayByPlay),
+  };
+}
+
+// Shared by the Next.js pages so one build doesn't fetch the same endpoint twice.
+// Long-running callers (the cron function) should create their own client per run.
+export const nhlApi = createNhlApiClient();
+
+export async function getScheduleData(client: NhlApiClient = nhlApi): Promise<ScheduleData | null> {
+  let data: ScheduleResponse;
+  try {
+    ({ data } = await client.getSchedule(getTeamConfig().abbrev));
+  } catch (error) {
+    console.error("Failed to fetch schedule:", error);
+    return null;
+  }
 
-  const completedGames = data.games.filter(
-    (game) => game.gameState === "OFF" || game.gameState === "FINAL"
-  );
+  const completedGames = data.games.filter(isFinal);
+  const upcomingGames = data.games.filter(isUpcoming);
+  const liveGames = data.games.filter(isLive);
 
-  const upcomingGames = data.games.filter(
-    (game) => game.gameState === "FUT"
-  );
+  for (const game of data.games) {
+    if (getGameStatus(game) === "unknown") {
+      console.warn(`Unknown state ${game.gameState}/${game.gameScheduleState ?? "-"} for game ${game.id}`);
+    }
+  }
 
-  // Games in progress have states like LIVE, CRIT, etc.
-  const liveGames = data.games.filter(
-    (game) => game.gameState !== "OFF" && game.gameState !== "FINAL" && game.gameState !== "FUT"
-  );
+  const latestCompleted = completedGames.length > 0 ? completedGames[completedGames.length - 1] : null;
+  const offSchedule = data.games.find(
+    (game) => isOffSchedule(game) && (!latestCompleted || game.startTimeUTC > latestCompleted.startTimeUTC)
+  ) ?? null;
 
   return {
-    latestCompleted: completedGames.length > 0 ? completedGames[completedGames.length - 1] : null,
+    latestCompleted,
     nextUpcoming: upcomingGames.length > 0 ? upcomingGames[0] : null,
     gameInProgress: liveGames.length > 0 ? liveGames[0] : null,
+    offSchedule,
   };
 }
 
-export async function getLeafsGames(): Promise<{ latestGame: Game | null; nextGame: Game | null }> {
-  const schedule = await getScheduleData();
+export async function getLeafsGames(client: NhlApiClient = nhlApi): Promise<{ latestGame: Game | null; nextGame: Game | null; offScheduleGame: Game | null }> {
+  const schedule = await getScheduleData(client);
   if (!schedule) {
     throw new Error("Failed to fetch schedule");
   }
   return {
     latestGame: schedule.latestCompleted,
     nextGame: schedule.nextUpcoming,
+    offScheduleGame: schedule.offSchedule,
   };
 }
 
-export async function getGameScoring(gameId: number): Promise<ScoringPeriod[]> {
-  const res = await fetch(
-    `https://api-web.nhle.com/v1/gamecenter/${gameId}/landing`
-  );
+// Finds a game in the current schedule, falling back to its landing page for older games
+export async function getGame(gameId: number, client: NhlApiClient = nhlApi): Promise<Game> {
+  const schedule = await client.getSchedule(getTeamConfig().abbrev).catch(() => null);
+  const scheduled = schedule?.data.games.find((g) => g.id === gameId);
+  if (scheduled) {
+    return scheduled;
+  }
+
+  const { data: landing } = await client.getLanding(gameId);
+  return {
+    id: landing.id,
+    gameDate: landing.gameDate,
+    gameType: landing.gameType,
+    gameState: landing.gameState,
+    startTimeUTC: landing.startTimeUTC,
+    awayTeam: {
+      abbrev: landing.awayTeam.abbrev,
+      placeName: landing.awayTeam.placeName,
+      score: landing.awayTeam.score,
+    },
+    homeTeam: {
+      abbrev: landing.homeTeam.abbrev,
+      placeName: landing.homeTeam.placeName,
+      score: landing.homeTeam.score,
+    },
+  };
+}
 
-  if (!res.ok) {
+export async function getGameScoring(gameId: number, client: NhlApiClient = nhlApi): Promise<ScoringPeriod[]> {
+  try {
+    const { data } = await client.getLanding(gameId);
+    return data.summary?.scoring ?? [];
+  } catch (error) {
+    console.error(`Failed to fetch scoring for game ${gameId}:`, error);
     return [];
   }
-
-  const data: GameLanding = await res.json();
-  return data.summary?.scoring ?? [];
 }
 
-export async function getGameBoxscore(gameId: number): Promise<BoxscoreResponse | null> {
-  const res = await fetch(
-    `https://api-web.nhle.com/v1/gamecenter/${gameId}/boxscore`
-  );
+export async function getGameBoxscore(gameId: number, client: NhlApiClient = nhlApi): Promise<BoxscoreResponse | null> {
+  try {
+    const { data } = await client.getBoxscore(gameId);
+    return data;
+  } catch (error) {
+    console.error(`Failed to fetch boxscore for game ${gameId}:`, error);
+    return null;
+  }
+}
 
-  if (!res.ok) {
+export async function getGameTimeline(gameId: number, client: NhlApiClient = nhlApi): Promise<GameTimeline | null> {
+  try {
+    const { data } = await client.getPlayByPlay(gameId);
+    return buildGameTimeline(data);
+  } catch (error) {
+    console.error(`Failed to fetch play-by-play for game ${gameId}:`, error);
     return null;
   }
+}
+
+export type GameDataSource = "landing" | "boxscore" | "playByPlay";
 
-  return res.json();
+export interface GameDataFailure {
+  source: GameDataSource;
+  message: string;
 }
 
-export async function getGameData(gameId: number) {
-  const [landingRes, boxscoreRes, pbpRes] = await Promise.all([
-    fetch(`https://api-web.nhle.com/v1/gamecenter/${gameId}/landing`),
-    fetch(`https://api-web.nhle.com/v1/gamecenter/${gameId}/boxscore`),
-    fetch(`https://api-web.nhle.com/v1/gamecenter/${gameId}/play-by-play`),
+export async function getGameData(gameId: number, client: NhlApiClient = nhlApi) {
+  const [landingResult, boxscoreResult, pbpResult] = await Promise.allSettled([
+    client.getLanding(gameId),
+    client.getBoxscore(gameId),
+    client.getPlayByPlay(gameId),
   ]);
 
-  const landing = landingRes.ok ? await landingRes.json() : null;
-  const boxscore = boxscoreRes.ok ? await boxscoreRes.json() : null;
-  const pbp: PlayByPlayResponse | null = pbpRes.ok ? await pbpRes.json() : null;
+  // Callers decide what to do with partial data, but they have to be told about it
+  const failures: GameDataFailure[] = [];
+  const warnings: SchemaWarning[] = [];
+  const settle = <T,>(source: GameDataSource, result: PromiseSettledResult<Validated<T>>): T | null => {
+    if (result.status === "fulfilled") {
+      warnings.push(...result.value.warnings);
+      return result.value.data;
+    }
+    failures.push({
+      source,
+      message: result.reason instanceof Error ? result.reason.message : String(result.reason),
+    });
+    return null;
+  };
+
+  const landing = settle("landing", landingResult);
+  const boxscore = settle("boxscore", boxscoreResult);
+  const pbp = settle("playByPlay", pbpResult);
+
+  // A scoring summary that doesn't add up to the final score is as bad as no summary
+  if (landing) {
+    for (const message of checkScoringConsistency(landing)) {
+      failures.push({ source: "landing", message });
+    }
+  }
 
-  const playByPlayNarrative = pbp ? distillPlayByPlay(pbp) : "";
+  const team = getTeamConfig();
+  const timeline = pbp ? buildGameTimeline(pbp) : null;
+  const playByPlayNarrative = timeline ? renderTimelineNarrative(timeline, team.abbrev) : "";
+  const leadSummary = timeline ? computeLeadSummary(timeline, team.abbrev) : null;
 
   const playerByGameStats = boxscore?.playerByGameStats;
-  const leafsIsHome = boxscore?.homeTeam?.abbrev === "TOR";
+  const leafsIsHome = boxscore?.homeTeam?.abbrev === team.abbrev;
   const leafsPlayerStats = playerByGameStats
     ? leafsIsHome ? playerByGameStats.homeTeam : playerByGameStats.awayTeam
     : null;
@@ -102,64 +292,51 @@ export async function getGameData(gameId: number) {
     ? leafsIsHome ? playerByGameStats.awayTeam : playerByGameStats.homeTeam
     : null;
 
-  const scoring = (landing?.summary?.scoring ?? []) as ScoringPeriod[];
+  const scoring = landing?.summary?.scoring ?? [];
+  const penalties = landing?.summary?.penalties ?? [];
 
-  const sumPim = (stats: { forwards?: { pim: number }[]; defense?: { pim: number }[]; goalies?: { pim: number }[] } | null) => {
+  const sumPim = (stats: { forwards?: { pim?: number }[]; defense?: { pim?: number }[]; goalies?: { pim?: number }[] } | null) => {
     if (!stats) return 0;
     return [...(stats.forwards ?? []), ...(stats.defense ?? []), ...(stats.goalies ?? [])]
       .reduce((sum, p) => sum + (p.pim ?? 0), 0);
   };
 
-  const countPowerPlay = (teamAbbrev: string) => {
-    let ppGoals = 0;
-    let ppOpps = 0;
-    // Count PP opportunities from opponent penalties (non-zero duration)
-    const penalties = (landing?.summary?.penalties ?? []) as PenaltyPeriod[];
-    for (const period of penalties) {
-      for (const pen of period.penalties) {
-        if (pen.teamAbbrev.default !== teamAbbrev && pen.duration > 0) {
-          ppOpps++;
-        }
-      }
-    }
-    // Count PP goals from scoring
-    for (const period of scoring) {
-      for (const goal of period.goals) {
-        if (goal.teamAbbrev.default === teamAbbrev && goal.strength === "pp") {
-          ppGoals++;
-        }
-      }
-    }
-    return `${ppGoals}/${ppOpps}`;
+  // Situation codes give real opportunities, the boxscore string is the fallback without play-by-play
+  const specialTeams = timeline ? computeSpecialTeams(timeline, team.abbrev) : null;
+  const teamStats = (teamBox: TeamBoxscore, ours: boolean): TeamGameStats => {
+    const stats = ours ? specialTeams?.team : specialTeams?.opponent;
+    return {
+      sog: teamBox.sog,
+      powerPlay: stats ? formatPowerPlay(stats) : teamBox.powerPlay,
+      pim: sumPim(ours ? leafsPlayerStats : opponentPlayerStats),
+      specialTeams: stats,
+    };
   };
 
-  const leafsAbbrev = "TOR";
-  const opponentAbbrev = leafsIsHome ? boxscore?.awayTeam?.abbrev : boxscore?.homeTeam?.abbrev;
-
   return {
     scoring,
-    penalties: (landing?.summary?.penalties ?? []) as PenaltyPeriod[],
-    threeStars: (landing?.summary?.threeStars ?? []) as ThreeStar[],
-    leafsStats: boxscore ? {
-      sog: leafsIsHome ? boxscore.homeTeam.sog : boxscore.awayTeam.sog,
-      powerPlay: countPowerPlay(leafsAbbrev),
-      pim: sumPim(leafsPlayerStats),
-    } : null,
-    opponentStats: boxscore ? {
-      sog: leafsIsHome ? boxscore.awayTeam.sog : boxscore.homeTeam.sog,
-      powerPlay: countPowerPlay(opponentAbbrev ?? ""),
-      pim: sumPim(opponentPlayerStats),
-    } : null,
+    penalties,
+    threeStars: landing?.summary?.threeStars ?? [],
+    leafsStats: boxscore ? teamStats(leafsIsHome ? boxscore.homeTeam : boxscore.awayTeam, true) : null,
+    opponentStats: boxscore ? teamStats(leafsIsHome ? boxscore.awayTeam : boxscore.homeTeam, false) : null,
     leafsSkaters: [
-      ...((leafsPlayerStats?.forwards ?? []) as PlayerStats[]),
-      ...((leafsPlayerStats?.defense ?? []) as PlayerStats[]),
+      ...(leafsPlayerStats?.forwards ?? []),
+      ...(leafsPlayerStats?.defense ?? []),
     ],
-    leafsGoalies: (leafsPlayerStats?.goalies ?? []) as GoalieStats[],
+    leafsGoalies: leafsPlayerStats?.goalies ?? [],
     opponentSkaters: [
-      ...((opponentPlayerStats?.forwards ?? []) as PlayerStats[]),
-      ...((opponentPlayerStats?.defense ?? []) as PlayerStats[]),
+      ...(opponentPlayerStats?.forwards ?? []),
+      ...(opponentPlayerStats?.defense ?? []),
     ],
-    opponentGoalies: (opponentPlayerStats?.goalies ?? []) as GoalieStats[],
+    opponentGoalies: opponentPlayerStats?.goalies ?? [],
+    rosterSpots: pbp?.rosterSpots ?? [],
     playByPlayNarrative,
+    timeline,
+    leadSummary,
+    playerImpact: boxscore && pbp && timeline ? computePlayerImpact(boxscore, pbp, timeline, team.abbrev) : null,
+    failures,
+    warnings,
   };
 }
+
+export type GameData = Awaited<ReturnType<typeof getGameData>>;
@@ -1,10 +1,22 @@
 // Unified NHL API types
 
+import type { GameTimeline } from "./play-by-play";
+import type { SpecialTeamsStats } from "./special-teams";
+import type { LeadSummary } from "./lead-tracking";
+import type { PlayerImpactReport } from "./player-impact";
+import type { StyleRuleId } from "./style-rules";
+import type { FactCheckResult } from "./fact-check";
+import type { PersonaId } from "./personas";
+import type { PromptVersion } from "./prompt-templates";
+import type { HistoricalContext } from "./history";
+
 export interface Game {
   id: number;
   gameDate: string;
   gameType: number;
   gameState: string;
+  // OK normally, PPD/SUSP/CNCL when the game is off its original schedule
+  gameScheduleState?: string;
   startTimeUTC: string;
   awayTeam: {
     abbrev: string;
@@ -16,6 +28,10 @@ export interface Game {
     placeName: { default: string };
     score?: number;
   };
+  // Present once a game has finished; lastPeriodType is REG, OT or SO
+  gameOutcome?: {
+    lastPeriodType: string;
+  };
 }
 
 export interface ScheduleResponse {
@@ -26,6 +42,8 @@ export interface ScheduleData {
   latestCompleted: Game | null;
   nextUpcoming: Game | null;
   gameInProgress: Game | null;
+  // A postponed, suspended or cancelled game since the latest completed one
+  offSchedule: Game | null;
 }
 
 export interface GoalAssist {
@@ -61,9 +79,53 @@ export interface ScoringPeriod {
 }
 
 export interface GameLanding {
-  summary: {
-    scoring: ScoringPeriod[];
+  id: number;
+  gameDate: string;
+  gameType: number;
+  gameState: string;
+  startTimeUTC: string;
+  awayTeam: {
+    abbrev: string;
+    placeName: { default: string };
+    score?: number;
+  };
+  homeTeam: {
+    abbrev: string;
+    placeName: { default: string };
+    score?: number;
+  };
+  summary?: {
+    scoring?: ScoringPeriod[];
+    penalties?: PenaltyPeriod[];
+    threeStars?: ThreeStar[];
+  };
+  // Same as on the schedule, read by readGame
+  gameOutcome?: Game["gameOutcome"];
+  // While the game is on, and the last period played once it's over
+  periodDescriptor?: { number: number; periodType: string };
+  clock?: {
+    timeRemaining: string;
+    running: boolean;
+    inIntermission: boolean;
   };
+  // Pre-game only, and only some of the time
+  matchup?: {
+    goalieComparison?: {
+      homeTeam: MatchupGoalie[];
+      awayTeam: MatchupGoalie[];
+    };
+  };
+}
+
+// A goalie's season numbers from the pre-game matchup. Every goalie on the
+// roster is listed, so the one with the most games is a guess at the starter.
+export interface MatchupGoalie {
+  playerId: number;
+  name: { default: string };
+  gamesPlayed: number;
+  record: string;
+  gaa: number;
+  savePctg: number;
 }
 
 export interface ThreeStar {
@@ -117,6 +179,7 @@ export interface GoalieStats {
   toi: string;
   starter: boolean;
   decision: string;
+  pim?: number;
 }
 
 export interface PlayByPlayEvent {
@@ -182,19 +245,48 @@ export interface TeamBoxscore {
   faceoffWinningPctg: number;
 }
 
+export interface TeamPlayerStats {
+  forwards: PlayerStats[];
+  defense: PlayerStats[];
+  goalies: GoalieStats[];
+}
+
+// Team totals as we report them, with special teams from the play-by-play when we have it
+export interface TeamGameStats {
+  sog: number;
+  powerPlay: string;
+  pim: number;
+  specialTeams?: SpecialTeamsStats;
+}
+
 export interface BoxscoreResponse {
   awayTeam: TeamBoxscore;
   homeTeam: TeamBoxscore;
+  playerByGameStats?: {
+    awayTeam: TeamPlayerStats;
+    homeTeam: TeamPlayerStats;
+  };
   summary?: {
     threeStars?: ThreeStar[];
     penalties?: PenaltyPeriod[];
   };
 }
 
+// One persona's take on a game
+export interface StoredRecap {
+  persona: PersonaId;
+  review: string;
+  promptVersion?: PromptVersion;
+  styleRulesHit?: StyleRuleId[];
+  factCheck?: FactCheckResult;
+}
+
 export interface StoredGame {
   gameId: number;
   gameDate: string;
   opponent: string;
+  // Absent on games stored before it was kept, opponent alone can't tell the New York teams apart
+  opponentAbbrev?: string;
   isLeafsHome: boolean;
   didLose: boolean;
   leafsScore: number;
@@ -202,4 +294,51 @@ export interface StoredGame {
   wasOT: boolean;
   wasSO: boolean;
   review: string;
+  // Persona that wrote review, absent for fallbacks and games stored before personas
+  persona?: PersonaId;
+  // Prompt template behind review, absent for fallbacks and games stored before versioning
+  promptVersion?: PromptVersion;
+  // Template recap written because generation failed, regenerate when the model is back
+  fallback?: boolean;
+  // House rules the model broke before the recap was repaired or replaced
+  styleRulesHit?: StyleRuleId[];
+  // What the fact-checker made of the generated recap, kept for auditing
+  factCheck?: FactCheckResult;
+  // Every persona's accepted recap, the main one included
+  recaps?: StoredRecap[];
+  // Parsed play-by-play, absent on games stored before it was kept
+  timeline?: GameTimeline;
+  leadSummary?: LeadSummary;
+  playerImpact?: PlayerImpactReport;
+  // Streak, form and head-to-head as the recap's prompt saw them
+  history?: HistoricalContext;
+  // Written live between periods, in period order
+  intermissions?: IntermissionReport[];
+}
+
+export interface IntermissionReport {
+  // The period that just ended
+  period: number;
+  periodLabel: string;
+  teamScore: number;
+  opponentScore: number;
+  report: string;
+  persona: PersonaId;
+  generatedAt: string;
+  styleRulesHit?: StyleRuleId[];
+}
+
+export interface StoredPreview {
+  gameId: number;
+  gameDate: string;
+  startTimeUTC: string;
+  opponent: string;
+  opponentAbbrev: string;
+  isLeafsHome: boolean;
+  preview: string;
+  persona: PersonaId;
+  generatedAt: string;
+  styleRulesHit?: StyleRuleId[];
+  // The form and history the preview was written from
+  history?: HistoricalContext;
 }
@@ -0,0 +1,540 @@
+// Runtime validation for NHL API payloads. Each validator normalizes optional
+// fields to safe defaults, records a warning for anything unexpected, and throws
+// NhlSchemaError when a field we can't do without (scores, team abbrevs) is missing.
+
+import type {
+  Game,
+  ScheduleResponse,
+  GameLanding,
+  MatchupGoalie,
+  ScoringPeriod,
+  Goal,
+  GoalAssist,
+  PenaltyPeriod,
+  ThreeStar,
+  BoxscoreResponse,
+  TeamBoxscore,
+  TeamPlayerStats,
+  PlayerStats,
+  GoalieStats,
+  PlayByPlayResponse,
+  PlayByPlayEvent,
+  RosterSpot,
+} from "./nhl-types";
+
+export interface SchemaWarning {
+  path: string;
+  message: string;
+}
+
+export interface Validated<T> {
+  data: T;
+  warnings: SchemaWarning[];
+}
+
+export class NhlSchemaError extends Error {
+  constructor(
+    message: string,
+    readonly path: string
+  ) {
+    super(`${message} at ${path}`);
+    this.name = "NhlSchemaError";
+  }
+}
+
+type Json = Record<string, unknown>;
+type Localized = { default: string };
+
+const isRecord = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const FINISHED_STATES = new Set(["OFF", "FINAL"]);
+
+function createReader(warnings: SchemaWarning[]) {
+  const warn = (path: string, message: string) => warnings.push({ path, message });
+
+  function record(value: unknown, path: string, required = false): Json {
+    if (isRecord(value)) return value;
+    if (required) throw new NhlSchemaError("Missing object", path);
+    if (value !== undefined) warn(path, "expected an object");
+    return {};
+  }
+
+  function list(value: unknown, path: string, required = false): unknown[] {
+    if (Array.isArray(value)) return value;
+    if (required) throw new NhlSchemaError("Missing array", path);
+    if (value !== undefined) warn(path, "expected an array");
+    return [];
+  }
+
+  function requiredNumber(value: unknown, path: string): number {
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+    throw new NhlSchemaError("Missing number", path);
+  }
+
+  function number(value: unknown, path: string, fallback = 0): number {
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+    warn(path, value === undefined ? `missing, defaulted to ${fallback}` : "expected a number");
+    return fallback;
+  }
+
+  function optionalNumber(value: unknown, path: string): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+    warn(path, "expected a number");
+    return undefined;
+  }
+
+  function requiredString(value: unknown, path: string): string {
+    if (typeof value === "string" && value.length > 0) return value;
+    throw new NhlSchemaError("Missing string", path);
+  }
+
+  function string(value: unknown, path: string, fallback = ""): string {
+    if (typeof value === "string") return value;
+    if (value !== undefined && value !== null) warn(path, "expected a string");
+    else if (fallback) warn(path, `missing, defaulted to "${fallback}"`);
+    return fallback;
+  }
+
+  // The API wraps most display strings as { default, fr?, ... } but not consistently
+  function localized(value: unknown, path: string, fallback = ""): Localized {
+    if (typeof value === "string") return { default: value };
+    if (isRecord(value) && typeof value.default === "string") return { default: value.default };
+    warn(path, value === undefined ? "missing localized string" : "expected a localized string");
+    return { default: fallback };
+  }
+
+  function requiredLocalized(value: unknown, path: string): Localized {
+    if (typeof value === "string" && value.length > 0) return { default: value };
+    if (isRecord(value) && typeof value.default === "string" && value.default.length > 0) {
+      return { default: value.default };
+    }
+    throw new NhlSchemaError("Missing localized string", path);
+  }
+
+  function periodDescriptor(value: unknown, path: string): { number: number; periodType: string } {
+    const pd = record(value, path);
+    return {
+      number: number(pd.number, `${path}.number`, 1),
+      periodType: string(pd.periodType, `${path}.periodType`, "REG"),
+    };
+  }
+
+  return {
+    warn,
+    record,
+    list,
+    requiredNumber,
+    number,
+    optionalNumber,
+    requiredString,
+    string,
+    localized,
+    requiredLocalized,
+    periodDescriptor,
+  };
+}
+
+type Reader = ReturnType<typeof createReader>;
+
+function readGameTeam(r: Reader, value: unknown, path: string, finished: boolean): Game["homeTeam"] {
+  const team = r.record(value, path, true);
+  return {
+    abbrev: r.requiredString(team.abbrev, `${path}.abbrev`),
+    placeName: r.localized(team.placeName, `${path}.placeName`, String(team.abbrev)),
+    score: finished
+      ? r.requiredNumber(team.score, `${path}.score`)
+      : r.optionalNumber(team.score, `${path}.score`),
+  };
+}
+
+function readGame(r: Reader, value: unknown, path: string): Game {
+  const game = r.record(value, path, true);
+  const gameState = r.requiredString(game.gameState, `${path}.gameState`);
+  const finished = FINISHED_STATES.has(gameState);
+  return {
+    id: r.requiredNumber(game.id, `${path}.id`),
+    gameDate: r.requiredString(game.gameDate, `${path}.gameDate`),
+    gameType: r.number(game.gameType, `${path}.gameType`, 2),
+    gameState,
+    gameScheduleState: typeof game.gameScheduleState === "string" ? game.gameScheduleState : undefined,
+    startTimeUTC: r.string(game.startTimeUTC, `${path}.startTimeUTC`),
+    awayTeam: readGameTeam(r, game.awayTeam, `${path}.awayTeam`, finished),
+    homeTeam: readGameTeam(r, game.homeTeam, `${path}.homeTeam`, finished),
+    gameOutcome: readGameOutcome(r, game.gameOutcome, `${path}.gameOutcome`),
+  };
+}
+
+function readGameOutcome(r: Reader, value: unknown, path: string): Game["gameOutcome"] {
+  if (value === undefined || value === null) return undefined;
+  const outcome = r.record(value, path);
+  return { lastPeriodType: r.string(outcome.lastPeriodType, `${path}.lastPeriodType`, "REG") };
+}
+
+export function validateScheduleResponse(raw: unknown): Validated<ScheduleResponse> {
+  const warnings: SchemaWarning[] = [];
+  const r = createReader(warnings);
+  const root = r.record(raw, "schedule", true);
+  const games = r.list(root.games, "schedule.games", true).map((g, i) => readGame(r, g, `schedule.games[${i}]`));
+  return { data: { games }, warnings };
+}
+
+function readAssist(r: Reader, value: unknown, path: string): GoalAssist | null {
+  if (!isRecord(value)) {
+    r.warn(path, "dropped malformed assist");
+    return null;
+  }
+  return {
+    playerId: r.number(value.playerId, `${path}.playerId`),
+    firstName: r.localized(value.firstName, `${path}.firstName`),
+    lastName: r.localized(value.lastName, `${path}.lastName`, "Unknown"),
+    sweaterNumber: r.number(value.sweaterNumber, `${path}.sweaterNumber`),
+  };
+}
+
+function readGoal(r: Reader, value: unknown, path: string): Goal {
+  const goal = r.record(value, path, true);
+  const assists = r.list(goal.assists, `${path}.assists`)
+    .map((a, i) => readAssist(r, a, `${path}.assists[${i}]`))
+    .filter((a): a is GoalAssist => a !== null);
+  return {
+    playerId: r.number(goal.playerId, `${path}.playerId`),
+    firstName: r.localized(goal.firstName, `${path}.firstName`),
+    lastName: r.localized(goal.lastName, `${path}.lastName`, "Unknown"),
+    // A goal we can't attribute to a team would corrupt the whole recap
+    teamAbbrev: r.requiredLocalized(goal.teamAbbrev, `${path}.teamAbbrev`),
+    timeInPeriod: r.string(goal.timeInPeriod, `${path}.timeInPeriod`, "00:00"),
+    shotType: r.string(goal.shotType, `${path}.shotType`, "unknown"),
+    strength: r.string(goal.strength, `${path}.strength`, "ev"),
+    goalModifier: r.string(goal.goalModifier, `${path}.goalModifier`, "none"),
+    goalsToDate: r.optionalNumber(goal.goalsToDate, `${path}.goalsToDate`) ?? 0,
+    assists,
+    awayScore: r.requiredNumber(goal.awayScore, `${path}.awayScore`),
+    homeScore: r.requiredNumber(goal.homeScore, `${path}.homeScore`),
+    headshot: r.string(goal.headshot, `${path}.headshot`),
+    highlightClipSharingUrl: typeof goal.highlightClipSharingUrl === "string" ? goal.highlightClipSharingUrl : undefined,
+  };
+}
+
+function readScoringPeriod(r: Reader, value: unknown, path: string): ScoringPeriod {
+  const period = r.record(value, path, true);
+  return {
+    periodDescriptor: r.periodDescriptor(period.periodDescriptor, `${path}.periodDescriptor`),
+    goals: r.list(period.goals, `${path}.goals`).map((g, i) => readGoal(r, g, `${path}.goals[${i}]`)),
+  };
+}
+
+function readPlayerName(r: Reader, value: unknown, path: string) {
+  if (value === undefined || value === null) return undefined;
+  const player = r.record(value, path);
+  return {
+    firstName: r.localized(player.firstName, `${path}.firstName`),
+    lastName: r.localized(player.lastName, `${path}.lastName`, "Unknown"),
+  };
+}
+
+function readPenaltyPeriod(r: Reader, value: unknown, path: string): PenaltyPeriod {
+  const period = r.record(value, path, true);
+  return {
+    periodDescriptor: r.periodDescriptor(period.periodDescriptor, `${path}.periodDescriptor`),
+    penalties: r.list(period.penalties, `${path}.penalties`).map((v, i) => {
+      const p = r.record(v, `${path}.penalties[${i}]`, true);
+      const pPath = `${path}.penalties[${i}]`;
+      return {
+        timeInPeriod: r.string(p.timeInPeriod, `${pPath}.timeInPeriod`, "00:00"),
+        type: r.string(p.type, `${pPath}.type`, "MIN"),
+        duration: r.number(p.duration, `${pPath}.duration`),
+        committedByPlayer: readPlayerName(r, p.committedByPlayer, `${pPath}.committedByPlayer`),
+        teamAbbrev: r.requiredLocalized(p.teamAbbrev, `${pPath}.teamAbbrev`),
+        drawnBy: readPlayerName(r, p.drawnBy, `${pPath}.drawnBy`),
+        descKey: r.string(p.descKey, `${pPath}.descKey`, "unknown"),
+      };
+    }),
+  };
+}
+
+function readThreeStar(r: Reader, value: unknown, path: string): ThreeStar {
+  const star = r.record(value, path, true);
+  return {
+    star: r.number(star.star, `${path}.star`),
+    name: r.localized(star.name, `${path}.name`, "Unknown"),
+    teamAbbrev: r.string(star.teamAbbrev, `${path}.teamAbbrev`, "?"),
+    position: r.string(star.position, `${path}.position`, "?"),
+    goals: r.optionalNumber(star.goals, `${path}.goals`),
+    assists: r.optionalNumber(star.assists, `${path}.assists`),
+    savePctg: r.optionalNumber(star.savePctg, `${path}.savePctg`),
+  };
+}
+
+function readMatchupGoalie(r: Reader, value: unknown, path: string): MatchupGoalie {
+  const goalie = r.record(value, path, true);
+  return {
+    playerId: r.requiredNumber(goalie.playerId, `${path}.playerId`),
+    name: r.localized(goalie.name, `${path}.name`, "Unknown"),
+    gamesPlayed: r.number(goalie.gamesPlayed, `${path}.gamesPlayed`),
+    record: r.string(goalie.record, `${path}.record`),
+    gaa: r.number(goalie.gaa, `${path}.gaa`),
+    savePctg: r.number(goalie.savePctg, `${path}.savePctg`),
+  };
+}
+
+// Each side is { leaders: [...] } in the payload, flattened to the list
+function readMatchupSide(r: Reader, value: unknown, path: string): MatchupGoalie[] {
+  const side = r.record(value, path);
+  return r.list(side.leaders, `${path}.leaders`)
+    .map((g, i) => readMatchupGoalie(r, g, `${path}.leaders[${i}]`))
+    .sort((a, b) => b.gamesPlayed - a.gamesPlayed);
+}
+
+export function validateGameLanding(raw: unknown): Validated<GameLanding> {
+  const warnings: SchemaWarning[] = [];
+  const r = createReader(warnings);
+  const root = r.record(raw, "landing", true);
+  const game = readGame(r, root, "landing");
+
+  let summary: GameLanding["summary"];
+  // No summary is normal before puck drop, so only check its shape when present
+  if (root.summary !== undefined) {
+    const s = r.record(root.summary, "landing.summary");
+    summary = {
+      scoring: r.list(s.scoring, "landing.summary.scoring")
+        .map((p, i) => readScoringPeriod(r, p, `landing.summary.scoring[${i}]`)),
+      penalties: r.list(s.penalties, "landing.summary.penalties")
+        .map((p, i) => readPenaltyPeriod(r, p, `landing.summary.penalties[${i}]`)),
+      threeStars: r.list(s.threeStars, "landing.summary.threeStars")
+        .map((t, i) => readThreeStar(r, t, `landing.summary.threeStars[${i}]`)),
+    };
+  } else if (FINISHED_STATES.has(game.gameState)) {
+    r.warn("landing.summary", "missing for a finished game");
+  }
+
+  let matchup: GameLanding["matchup"];
+  if (root.matchup !== undefined) {
+    const m = r.record(root.matchup, "landing.matchup");
+    if (m.goalieComparison !== undefined) {
+      const gc = r.record(m.goalieComparison, "landing.matchup.goalieComparison");
+      matchup = {
+        goalieComparison: {
+          homeTeam: readMatchupSide(r, gc.homeTeam, "landing.matchup.goalieComparison.homeTeam"),
+          awayTeam: readMatchupSide(r, gc.awayTeam, "landing.matchup.goalieComparison.awayTeam"),
+        },
+      };
+    } else {
+      matchup = {};
+    }
+  }
+
+  // Only worth reading once the puck has dropped
+  const periodDescriptor = root.periodDescriptor !== undefined
+    ? r.periodDescriptor(root.periodDescriptor, "landing.periodDescriptor")
+    : undefined;
+  let clock: GameLanding["clock"];
+  if (root.clock !== undefined) {
+    const c = r.record(root.clock, "landing.clock");
+    clock = {
+      timeRemaining: r.string(c.timeRemaining, "landing.clock.timeRemaining"),
+      running: c.running === true,
+      inIntermission: c.inIntermission === true,
+    };
+  }
+
+  return { data: { ...game, summary, periodDescriptor, clock, matchup }, warnings };
+}
+
+function readTeamBoxscore(r: Reader, value: unknown, path: string): TeamBoxscore {
+  const team = r.record(value, path, true);
+  return {
+    abbrev: r.requiredString(team.abbrev, `${path}.abbrev`),
+    score: r.requiredNumber(team.score, `${path}.score`),
+    sog: r.number(team.sog, `${path}.sog`),
+    pim: r.optionalNumber(team.pim, `${path}.pim`) ?? 0,
+    powerPlay: r.string(team.powerPlay, `${path}.powerPlay`),
+    powerPlayPctg: r.optionalNumber(team.powerPlayPctg, `${path}.powerPlayPctg`) ?? 0,
+    faceoffWinningPctg: r.optionalNumber(team.faceoffWinningPctg, `${path}.faceoffWinningPctg`) ?? 0,
+  };
+}
+
+function readSkater(r: Reader, value: unknown, path: string): PlayerStats {
+  const p = r.record(value, path, true);
+  return {
+    playerId: r.requiredNumber(p.playerId, `${path}.playerId`),
+    name: r.localized(p.name, `${path}.name`, "Unknown"),
+    position: r.string(p.position, `${path}.position`, "?"),
+    goals: r.number(p.goals, `${path}.goals`),
+    assists: r.number(p.assists, `${path}.assists`),
+    points: r.number(p.points, `${path}.points`),
+    plusMinus: r.number(p.plusMinus, `${path}.plusMinus`),
+    pim: r.number(p.pim, `${path}.pim`),
+    hits: r.number(p.hits, `${path}.hits`),
+    sog: r.number(p.sog, `${path}.sog`),
+    blockedShots: r.number(p.blockedShots, `${path}.blockedShots`),
+    giveaways: r.number(p.giveaways, `${path}.giveaways`),
+    takeaways: r.number(p.takeaways, `${path}.takeaways`),
+    toi: r.string(p.toi, `${path}.toi`, "00:00"),
+    faceoffWinningPctg: r.optionalNumber(p.faceoffWinningPctg, `${path}.faceoffWinningPctg`) ?? 0,
+  };
+}
+
+function readGoalie(r: Reader, value: unknown, path: string): GoalieStats {
+  const g = r.record(value, path, true);
+  return {
+    playerId: r.requiredNumber(g.playerId, `${path}.playerId`),
+    name: r.localized(g.name, `${path}.name`, "Unknown"),
+    position: r.string(g.position, `${path}.position`, "G"),
+    saveShotsAgainst: r.string(g.saveShotsAgainst, `${path}.saveShotsAgainst`, "0/0"),
+    savePctg: r.optionalNumber(g.savePctg, `${path}.savePctg`) ?? 0,
+    goalsAgainst: r.number(g.goalsAgainst, `${path}.goalsAgainst`),
+    toi: r.string(g.toi, `${path}.toi`, "00:00"),
+    starter: g.starter === true,
+    decision: r.string(g.decision, `${path}.decision`),
+    pim: r.optionalNumber(g.pim, `${path}.pim`),
+  };
+}
+
+function readTeamPlayerStats(r: Reader, value: unknown, path: string): TeamPlayerStats {
+  const team = r.record(value, path);
+  return {
+    forwards: r.list(team.forwards, `${path}.forwards`).map((p, i) => readSkater(r, p, `${path}.forwards[${i}]`)),
+    defense: r.list(team.defense, `${path}.defense`).map((p, i) => readSkater(r, p, `${path}.defense[${i}]`)),
+    goalies: r.list(team.goalies, `${path}.goalies`).map((p, i) => readGoalie(r, p, `${path}.goalies[${i}]`)),
+  };
+}
+
+export function validateBoxscore(raw: unknown): Validated<BoxscoreResponse> {
+  const warnings: SchemaWarning[] = [];
+  const r = createReader(warnings);
+  const root = r.record(raw, "boxscore", true);
+
+  let playerByGameStats: BoxscoreResponse["playerByGameStats"];
+  if (isRecord(root.playerByGameStats)) {
+    playerByGameStats = {
+      awayTeam: readTeamPlayerStats(r, root.playerByGameStats.awayTeam, "boxscore.playerByGameStats.awayTeam"),
+      homeTeam: readTeamPlayerStats(r, root.playerByGameStats.homeTeam, "boxscore.playerByGameStats.homeTeam"),
+    };
+  } else {
+    r.warn("boxscore.playerByGameStats", "missing player stats");
+  }
+
+  return {
+    data: {
+      awayTeam: readTeamBoxscore(r, root.awayTeam, "boxscore.awayTeam"),
+      homeTeam: readTeamBoxscore(r, root.homeTeam, "boxscore.homeTeam"),
+      playerByGameStats,
+    },
+    warnings,
+  };
+}
+
+function readPlay(r: Reader, value: unknown, path: string): PlayByPlayEvent | null {
+  if (!isRecord(value) || typeof value.typeDescKey !== "string") {
+    r.warn(path, "dropped play without a type");
+    return null;
+  }
+
+  let details: PlayByPlayEvent["details"];
+  if (value.details !== undefined) {
+    const d = r.record(value.details, `${path}.details`);
+    details = {};
+    // Details are a flat bag of optional ids, coords and strings; keep only well-typed values
+    for (const [key, v] of Object.entries(d)) {
+      if (typeof v === "number" || typeof v === "string") {
+        (details as Record<string, number | string>)[key] = v;
+      }
+    }
+    if (value.typeDescKey === "goal" && typeof details.eventOwnerTeamId !== "number") {
+      throw new NhlSchemaError("Goal without an owning team", `${path}.details.eventOwnerTeamId`);
+    }
+  }
+
+  return {
+    eventId: r.number(value.eventId, `${path}.eventId`),
+    periodDescriptor: r.periodDescriptor(value.periodDescriptor, `${path}.periodDescriptor`),
+    timeInPeriod: r.string(value.timeInPeriod, `${path}.timeInPeriod`, "00:00"),
+    timeRemaining: r.string(value.timeRemaining, `${path}.timeRemaining`, "00:00"),
+    situationCode: r.string(value.situationCode, `${path}.situationCode`, "1551"),
+    typeDescKey: value.typeDescKey,
+    details,
+  };
+}
+
+function readRosterSpot(r: Reader, value: unknown, path: string): RosterSpot {
+  const spot = r.record(value, path, true);
+  return {
+    teamId: r.requiredNumber(spot.teamId, `${path}.teamId`),
+    playerId: r.requiredNumber(spot.playerId, `${path}.playerId`),
+    firstName: r.localized(spot.firstName, `${path}.firstName`),
+    lastName: r.localized(spot.lastName, `${path}.lastName`, "Unknown"),
+    sweaterNumber: r.number(spot.sweaterNumber, `${path}.sweaterNumber`),
+    positionCode: r.string(spot.positionCode, `${path}.positionCode`, "?"),
+  };
+}
+
+export function validatePlayByPlay(raw: unknown): Validated<PlayByPlayResponse> {
+  const warnings: SchemaWarning[] = [];
+  const r = createReader(warnings);
+  const root = r.record(raw, "playByPlay", true);
+
+  const readTeam = (value: unknown, path: string) => {
+    const team = r.record(value, path, true);
+    return {
+      id: r.requiredNumber(team.id, `${path}.id`),
+      abbrev: r.requiredString(team.abbrev, `${path}.abbrev`),
+    };
+  };
+
+  return {
+    data: {
+      plays: r.list(root.plays, "playByPlay.plays", true)
+        .map((p, i) => readPlay(r, p, `playByPlay.plays[${i}]`))
+        .filter((p): p is PlayByPlayEvent => p !== null),
+      rosterSpots: r.list(root.rosterSpots, "playByPlay.rosterSpots")
+        .map((s, i) => readRosterSpot(r, s, `playByPlay.rosterSpots[${i}]`)),
+      homeTeam: readTeam(root.homeTeam, "playByPlay.homeTeam"),
+      awayTeam: readTeam(root.awayTeam, "playByPlay.awayTeam"),
+    },
+    warnings,
+  };
+}
+
+// Cross-checks the goal list against the final score. Shootout winners get a
+// goal on the scoreboard that never appears in the regular scoring summary.
+export function checkScoringConsistency(landing: GameLanding): string[] {
+  if (!FINISHED_STATES.has(landing.gameState)) return [];
+
+  const scoring = landing.summary?.scoring ?? [];
+  const counted: Record<string, number> = {
+    [landing.homeTeam.abbrev]: 0,
+    [landing.awayTeam.abbrev]: 0,
+  };
+  for (const period of scoring) {
+    if (period.periodDescriptor.periodType === "SO") continue;
+    for (const goal of period.goals) {
+      counted[goal.teamAbbrev.default] = (counted[goal.teamAbbrev.default] ?? 0) + 1;
+    }
+  }
+
+  const problems: string[] = [];
+  // The scoring summary can come back without the shootout period, so it's the last resort
+  const lastPeriodType = landing.gameOutcome?.lastPeriodType ?? landing.periodDescriptor?.periodType;
+  const wentToShootout = lastPeriodType !== undefined
+    ? lastPeriodType === "SO"
+    : scoring.some((p) => p.periodDescriptor.periodType === "SO");
+  for (const team of [landing.homeTeam, landing.awayTeam]) {
+    const expected = team.score ?? 0;
+    const actual = counted[team.abbrev] ?? 0;
+    const ok = actual === expected || (wentToShootout && actual === expected - 1);
+    if (!ok) {
+      problems.push(`${team.abbrev} has ${actual} goals in the scoring summary but a final score of ${expected}`);
+    }
+  }
+
+  const unknownTeams = Object.keys(counted).filter(
+    (abbrev) => abbrev !== landing.homeTeam.abbrev && abbrev !== landing.awayTeam.abbrev
+  );
+  for (const abbrev of unknownTeams) {
+    problems.push(`Goals credited to ${abbrev}, which is not playing in this game`);
+  }
+
+  return problems;
+}
@@ -0,0 +1,113 @@
+// Recap voices. Each persona brings its own system instruction and any style
+// rules on top of the house ones, and the cron writes one recap per configured
+// persona, the main one first and the rest one per run after it. The snarky fan
+// is the site's original voice and stays the default.
+
+import type { TeamConfig } from "./team";
+import type { StyleRule } from "./style-rules";
+import type { StoredGame } from "./nhl-types";
+
+export type PersonaId = "snarky" | "optimist" | "stats-nerd" | "old-timer";
+
+export interface Persona {
+  id: PersonaId;
+  // Shown on the recap switcher
+  name: string;
+  voice(team: TeamConfig): string;
+  // How to handle a win or a loss, in the persona's terms
+  attitude(team: TeamConfig): string;
+  styleRules?: StyleRule[];
+}
+
+export const PERSONAS: Record<PersonaId, Persona> = {
+  snarky: {
+    id: "snarky",
+    name: "Snarky fan",
+    voice: (team) => team.fanPersona,
+    attitude: (team) => `${team.lossAttitude} ${team.winAttitude}`,
+  },
+  optimist: {
+    id: "optimist",
+    name: "Delusional optimist",
+    voice: (team) =>
+      `You are a relentlessly, hilariously optimistic ${team.fullName} fan writing a brief game recap. Every game is proof that this is finally the year. Your main goal is to be funny through sheer misplaced confidence.`,
+    attitude: () =>
+      "If they lost, find the moral victory and explain why it's actually great news. If they won, treat it as the start of a dynasty.",
+    styleRules: [
+      {
+        id: "persona-negativity",
+        description: "sounds defeated, which the optimist never does",
+        pattern: /\b(hopeless|doomed|tank(ing)?|rebuild|lost cause|give up)\b/gi,
+      },
+    ],
+  },
+  "stats-nerd": {
+    id: "stats-nerd",
+    name: "Grumpy stats nerd",
+    voice: (team) =>
+      `You are a grumpy ${team.shortName} fan who trusts shot attempts, expected goals and special teams numbers over anything anyone saw with their own eyes. You're writing a brief game recap and you're annoyed about it.`,
+    attitude: () =>
+      "Win or lose, explain whether they deserved it on the underlying numbers. Lean on the shot attempt, expected goals and special teams data you're given.",
+    styleRules: [
+      {
+        id: "persona-cliche",
+        description: "uses a hockey cliche the stats nerd can't stand",
+        pattern: /\b(grit|gritty|compete level|wanted it more|heart and soul|puck luck)\b/gi,
+      },
+    ],
+  },
+  "old-timer": {
+    id: "old-timer",
+    name: "Old-timer",
+    voice: (team) =>
+      `You are a cranky old-time ${team.shortName} fan who has been watching since before helmets were mandatory. You're writing a brief game recap and comparing everything to how hockey used to be played.`,
+    attitude: () =>
+      "If they lost, blame the modern game. If they won, give credit only to the players who did things the old way: hitting, blocking shots and going to the net. Ignore the fancy stats in the data.",
+    styleRules: [
+      {
+        id: "persona-jargon",
+        description: "uses analytics jargon the old-timer wouldn't know",
+        pattern: /\b(corsi|fenwick|expected goals|xg|analytics|high[- ]danger)\b/gi,
+      },
+    ],
+  },
+};
+
+export const DEFAULT_PERSONA: PersonaId = "snarky";
+
+const isPersonaId = (id: string): id is PersonaId => id in PERSONAS;
+
+export function getPersona(id: string): Persona {
+  if (!isPersonaId(id)) {
+    throw new Error(`Unknown persona "${id}", expected one of ${Object.keys(PERSONAS).join(", ")}`);
+  }
+  return PERSONAS[id];
+}
+
+// REVIEW_PERSONAS is a comma-separated list, the first one is the game's main recap
+export function getConfiguredPersonas(env: NodeJS.ProcessEnv = process.env): Persona[] {
+  const ids = (env.REVIEW_PERSONAS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return Array.from(new Set(ids.length > 0 ? ids : [DEFAULT_PERSONA]), getPersona);
+}
+
+export interface RecapOption {
+  key: string;
+  label: string;
+  review: string;
+}
+
+// The main review first, then every other persona's take, for the recap switcher
+export function listRecaps(game: Pick<StoredGame, "review" | "persona" | "recaps">): RecapOption[] {
+  const main: RecapOption = {
+    key: game.persona ?? "main",
+    label: game.persona ? PERSONAS[game.persona].name : "Recap",
+    review: game.review,
+  };
+  const others = (game.recaps ?? [])
+    .filter((r) => r.persona !== game.persona && isPersonaId(r.persona))
+    .map((r) => ({ key: r.persona, label: PERSONAS[r.persona].name, review: r.review }));
+  return [main, ...others];
+}
@@ -1,70 +1,246 @@
 import type { PlayByPlayResponse, PlayByPlayEvent } from "./nhl-types";
+import { getPeriodLabel } from "./helpers";
+import { computeShotAttempts, renderShotAttempts } from "./shot-attempts";
+import { computeExpectedGoals, renderExpectedGoals } from "./expected-goals";
+import { describeStrength } from "./special-teams";
+import { findGoaliePulls, renderGoaliePulls } from "./goalie-pulls";
+import type { GoaliePull } from "./goalie-pulls";
+import { getTeamConfig } from "./team";
 
-export function distillPlayByPlay(pbp: PlayByPlayResponse): string {
+export type TeamSide = "home" | "away";
+
+export interface PlayerRef {
+  id: number;
+  name: string;
+}
+
+export interface ScoreState {
+  away: number;
+  home: number;
+}
+
+export interface PeriodTeamStats {
+  shots: number;
+  missedShots: number;
+  hits: number;
+  takeaways: number;
+  giveaways: number;
+  blocks: number;
+  faceoffWins: number;
+}
+
+export interface PeriodSummary {
+  label: string;
+  number: number;
+  periodType: string;
+  home: PeriodTeamStats;
+  away: PeriodTeamStats;
+}
+
+interface TimelineEventBase {
+  eventId: number;
+  period: string;
+  periodNumber: number;
+  timeInPeriod: string;
+  // Seconds since opening faceoff, overtime continues on from the end of the third
+  elapsedSeconds: number;
+  situationCode: string;
+  side: TeamSide;
+  teamAbbrev: string;
+  // Score after this event
+  score: ScoreState;
+}
+
+export interface GoalEvent extends TimelineEventBase {
+  type: "goal";
+  scorer: PlayerRef | null;
+  assists: PlayerRef[];
+  shotType: string | null;
+  zoneCode: string | null;
+}
+
+export interface PenaltyEvent extends TimelineEventBase {
+  type: "penalty";
+  committedBy: PlayerRef | null;
+  drawnBy: PlayerRef | null;
+  descKey: string;
+  duration: number;
+  typeCode: string | null;
+}
+
+export interface FightEvent extends TimelineEventBase {
+  type: "fight";
+  committedBy: PlayerRef | null;
+  drawnBy: PlayerRef | null;
+}
+
+export type TimelineEvent = GoalEvent | PenaltyEvent | FightEvent;
+
+export type ShotKind = "goal" | "shot-on-goal" | "missed-shot" | "blocked-shot";
+
+// Every shot attempt outside the shootout (goals, saves, misses, blocks), credited to the shooting team
+export interface ShotAttempt {
+  eventId: number;
+  period: string;
+  periodNumber: number;
+  timeInPeriod: string;
+  elapsedSeconds: number;
+  situationCode: string;
+  side: TeamSide;
+  teamAbbrev: string;
+  kind: ShotKind;
+  shooter: PlayerRef | null;
+  shotType: string | null;
+  zoneCode: string | null;
+  xCoord: number | null;
+  yCoord: number | null;
+}
+
+// A stretch of game time played at one situationCode
+export interface SituationSegment {
+  startSeconds: number;
+  endSeconds: number;
+  situationCode: string;
+}
+
+export interface GameTimeline {
+  home: { id: number; abbrev: string };
+  away: { id: number; abbrev: string };
+  periods: PeriodSummary[];
+  events: TimelineEvent[];
+  shots: ShotAttempt[];
+  situations: SituationSegment[];
+  goaliePulls: GoaliePull[];
+  finalScore: ScoreState;
+}
+
+const PERIOD_SECONDS = 20 * 60;
+
+export function parseClock(time: string): number {
+  const [min, sec] = time.split(":").map((n) => parseInt(n, 10));
+  return (min || 0) * 60 + (sec || 0);
+}
+
+export function elapsedSeconds(ev: Pick<PlayByPlayEvent, "periodDescriptor" | "timeInPeriod">): number {
+  return (ev.periodDescriptor.number - 1) * PERIOD_SECONDS + parseClock(ev.timeInPeriod);
+}
+
+export function buildGameTimeline(pbp: PlayByPlayResponse): GameTimeline {
   const playerMap = new Map<number, string>();
+  const playerTeam = new Map<number, number>();
   for (const spot of pbp.rosterSpots) {
     playerMap.set(spot.playerId, `${spot.firstName.default} ${spot.lastName.default}`);
+    playerTeam.set(spot.playerId, spot.teamId);
   }
-  const name = (id: number | undefined) => (id ? playerMap.get(id) ?? `#${id}` : "unknown");
+  const player = (id: number | undefined): PlayerRef | null =>
+    id ? { id, name: playerMap.get(id) ?? `#${id}` } : null;
 
   const teamMap = new Map<number, string>();
   teamMap.set(pbp.homeTeam.id, pbp.homeTeam.abbrev);
   teamMap.set(pbp.awayTeam.id, pbp.awayTeam.abbrev);
-  const team = (id: number | undefined) => (id ? teamMap.get(id) ?? "?" : "?");
 
   const homeId = pbp.homeTeam.id;
 
-  // Decode situationCode: digit1=awayGoalie(1=in,0=pulled), digit2=awaySkaters, digit3=homeSkaters, digit4=homeGoalie
-  function strength(code: string | undefined): string {
-    if (!code || code.length !== 4) return "5v5";
-    const awaySkaters = parseInt(code[1]);
-    const homeSkaters = parseInt(code[2]);
-    if (awaySkaters === homeSkaters) {
-      if (awaySkaters === 5) return "5v5";
-      return `${awaySkaters}v${homeSkaters}`;
+  // --- Per-period aggregates ---
+  const periods = new Map<string, PeriodSummary>();
+
+  function ensurePeriod(ev: PlayByPlayEvent): PeriodSummary {
+    const label = getPeriodLabel(ev);
+    if (!periods.has(label)) {
+      const blank = (): PeriodTeamStats => ({ shots: 0, missedShots: 0, hits: 0, takeaways: 0, giveaways: 0, blocks: 0, faceoffWins: 0 });
+      periods.set(label, {
+        label,
+        number: ev.periodDescriptor.number,
+        periodType: ev.periodDescriptor.periodType,
+        home: blank(),
+        away: blank(),
+      });
     }
-    return `${awaySkaters}v${homeSkaters}`;
+    return periods.get(label)!;
   }
 
-  // Zone from perspective of event owner: O=offensive, D=defensive, N=neutral
-  const zoneLabel: Record<string, string> = { O: "OZ", D: "DZ", N: "NZ" };
-
-  // --- Per-period aggregates ---
-  const periodAggs = new Map<string, { home: Record<string, number>; away: Record<string, number> }>();
+  // --- Key events only (goals, penalties, fights) ---
+  const events: TimelineEvent[] = [];
+  const shots: ShotAttempt[] = [];
+  let score: ScoreState = { away: 0, home: 0 };
 
-  function getPeriodLabel(ev: PlayByPlayEvent): string {
-    const pd = ev.periodDescriptor;
-    if (pd.periodType === "OT") return "OT";
-    if (pd.periodType === "SO") return "SO";
-    return `P${pd.number}`;
+  function recordShot(ev: PlayByPlayEvent, kind: ShotKind, period: string, ownerSide: TeamSide) {
+    const d = ev.details;
+    if (ev.periodDescriptor.periodType === "SO") return;
+    const shooterId = kind === "goal" ? d?.scoringPlayerId : d?.shootingPlayerId;
+    // Blocked shots are owned by the blocking team, so prefer the shooter's roster team
+    const shooterTeam = shooterId ? playerTeam.get(shooterId) : undefined;
+    const side: TeamSide = shooterTeam !== undefined
+      ? shooterTeam === homeId ? "home" : "away"
+      : kind === "blocked-shot" ? ownerSide === "home" ? "away" : "home" : ownerSide;
+    shots.push({
+      eventId: ev.eventId,
+      period,
+      periodNumber: ev.periodDescriptor.number,
+      timeInPeriod: ev.timeInPeriod,
+      elapsedSeconds: elapsedSeconds(ev),
+      situationCode: ev.situationCode,
+      side,
+      teamAbbrev: side === "home" ? pbp.homeTeam.abbrev : pbp.awayTeam.abbrev,
+      kind,
+      shooter: player(shooterId),
+      shotType: d?.shotType ?? null,
+      zoneCode: d?.zoneCode ?? null,
+      xCoord: d?.xCoord ?? null,
+      yCoord: d?.yCoord ?? null,
+    });
   }
 
-  function ensurePeriod(label: string) {
-    if (!periodAggs.has(label)) {
-      const blank = () => ({ shots: 0, hits: 0, takeaways: 0, giveaways: 0, blocks: 0, faceoffWins: 0 });
-      periodAggs.set(label, { home: blank(), away: blank() });
+  // Situation changes show up on the next event, close enough since the clock
+  // is stopped between a penalty call and the faceoff that follows it
+  const situations: SituationSegment[] = [];
+  let current: SituationSegment | null = null;
+
+  function trackSituation(ev: PlayByPlayEvent) {
+    if (ev.periodDescriptor.periodType === "SO" || !ev.situationCode) return;
+    const seconds = elapsedSeconds(ev);
+    if (current && current.situationCode === ev.situationCode) {
+      current.endSeconds = seconds;
+      return;
     }
-    return periodAggs.get(label)!;
+    if (current) {
+      current.endSeconds = seconds;
+    }
+    current = { startSeconds: seconds, endSeconds: seconds, situationCode: ev.situationCode };
+    situations.push(current);
   }
 
-  // --- Key events only (goals, penalties, fights) ---
-  const eventLog: string[] = [];
-
   for (const ev of pbp.plays) {
-    const pLabel = getPeriodLabel(ev);
-    const agg = ensurePeriod(pLabel);
+    trackSituation(ev);
+    const agg = ensurePeriod(ev);
     const d = ev.details;
     const ownerId = d?.eventOwnerTeamId;
-    const side = ownerId === homeId ? "home" : "away";
-    const str = strength(ev.situationCode);
-    const zone = d?.zoneCode ? zoneLabel[d.zoneCode] ?? d.zoneCode : "";
+    const side: TeamSide = ownerId === homeId ? "home" : "away";
+
+    const base = (): TimelineEventBase => ({
+      eventId: ev.eventId,
+      period: agg.label,
+      periodNumber: ev.periodDescriptor.number,
+      timeInPeriod: ev.timeInPeriod,
+      elapsedSeconds: elapsedSeconds(ev),
+      situationCode: ev.situationCode,
+      side,
+      teamAbbrev: ownerId ? teamMap.get(ownerId) ?? "?" : "?",
+      score: { ...score },
+    });
 
     switch (ev.typeDescKey) {
       case "shot-on-goal":
         agg[side].shots++;
+        recordShot(ev, "shot-on-goal", agg.label, side);
+        break;
+      case "missed-shot":
+        agg[side].missedShots++;
+        recordShot(ev, "missed-shot", agg.label, side);
         break;
       case "blocked-shot":
         agg[side].blocks++;
+        recordShot(ev, "blocked-shot", agg.label, side);
         break;
       case "hit":
         agg[side].hits++;
@@ -76,28 +252,103 @@ export function distillPlayByPlay(pbp: PlayByPlayResponse): string {
         agg[side].giveaways++;
         break;
       case "faceoff":
-        if (ownerId === homeId) agg.home.faceoffWins++;
-        else agg.away.faceoffWins++;
+        agg[side].faceoffWins++;
         break;
       case "goal":
-        eventLog.push(`${pLabel} ${ev.timeInPeriod} [${str}]: GOAL ${team(ownerId)} ${name(d?.scoringPlayerId)}${d?.assist1PlayerId ? ` from ${name(d.assist1PlayerId)}` : ""}${d?.assist2PlayerId ? `, ${name(d.assist2PlayerId)}` : ""} (${d?.shotType ?? "?"}, ${zone}) - ${d?.awayScore}-${d?.homeScore}`);
+        recordShot(ev, "goal", agg.label, side);
+        if (d?.awayScore !== undefined && d?.homeScore !== undefined) {
+          score = { away: d.awayScore, home: d.homeScore };
+        }
+        events.push({
+          ...base(),
+          type: "goal",
+          scorer: player(d?.scoringPlayerId),
+          assists: [player(d?.assist1PlayerId), player(d?.assist2PlayerId)].filter((p): p is PlayerRef => p !== null),
+          shotType: d?.shotType ?? null,
+          zoneCode: d?.zoneCode ?? null,
+        });
         break;
       case "penalty":
-        eventLog.push(`${pLabel} ${ev.timeInPeriod}: PENALTY ${team(ownerId)} ${name(d?.committedByPlayerId)} - ${d?.descKey} ${d?.duration}min${d?.drawnByPlayerId ? ` drawn by ${name(d.drawnByPlayerId)}` : ""}`);
+        events.push({
+          ...base(),
+          type: "penalty",
+          committedBy: player(d?.committedByPlayerId),
+          drawnBy: player(d?.drawnByPlayerId),
+          descKey: d?.descKey ?? "unknown",
+          duration: d?.duration ?? 0,
+          typeCode: d?.typeCode ?? null,
+        });
         break;
       case "fight":
-        eventLog.push(`${pLabel} ${ev.timeInPeriod}: FIGHT ${team(ownerId)} ${name(d?.committedByPlayerId)} vs ${name(d?.drawnByPlayerId)}`);
+        events.push({
+          ...base(),
+          type: "fight",
+          committedBy: player(d?.committedByPlayerId),
+          drawnBy: player(d?.drawnByPlayerId),
+        });
         break;
     }
   }
 
-  // --- Format period aggregates ---
-  const aggLines: string[] = [];
-  const hAbbrev = pbp.homeTeam.abbrev;
-  const aAbbrev = pbp.awayTeam.abbrev;
-  Array.from(periodAggs.entries()).forEach(([period, { home, away }]) => {
-    aggLines.push(`${period}: ${aAbbrev} ${away.shots}SOG/${away.hits}H/${away.takeaways}TK/${away.giveaways}GV/${away.blocks}BLK/${away.faceoffWins}FOW | ${hAbbrev} ${home.shots}SOG/${home.hits}H/${home.takeaways}TK/${home.giveaways}GV/${home.blocks}BLK/${home.faceoffWins}FOW`);
-  });
+  const playedSituations = situations.filter((seg) => seg.endSeconds > seg.startSeconds);
 
-  return `PERIOD-BY-PERIOD STATS:\n${aggLines.join("\n")}\n\nKEY EVENTS:\n${eventLog.join("\n")}`;
+  // Elapsed plus remaining on any play gives the period's length, which is how
+  // a five-minute regular-season overtime tells itself apart from a playoff one
+  const periodLengths: Record<number, number> = {};
+  for (const ev of pbp.plays) {
+    if (ev.timeRemaining) {
+      periodLengths[ev.periodDescriptor.number] ??= parseClock(ev.timeInPeriod) + parseClock(ev.timeRemaining);
+    }
+  }
+
+  return {
+    home: { id: pbp.homeTeam.id, abbrev: pbp.homeTeam.abbrev },
+    away: { id: pbp.awayTeam.id, abbrev: pbp.awayTeam.abbrev },
+    periods: Array.from(periods.values()),
+    events,
+    shots,
+    situations: playedSituations,
+    goaliePulls: findGoaliePulls(playedSituations, events, { home: pbp.homeTeam.abbrev, away: pbp.awayTeam.abbrev }, periodLengths),
+    finalScore: score,
+  };
+}
+
+// Zone from perspective of event owner: O=offensive, D=defensive, N=neutral
+const zoneLabel: Record<string, string> = { O: "OZ", D: "DZ", N: "NZ" };
+
+const playerName = (ref: PlayerRef | null) => ref?.name ?? "unknown";
+
+function renderEvent(ev: TimelineEvent, perspective: TeamSide): string {
+  switch (ev.type) {
+    case "goal": {
+      const zone = ev.zoneCode ? zoneLabel[ev.zoneCode] ?? ev.zoneCode : "";
+      const [a1, a2] = ev.assists;
+      return `${ev.period} ${ev.timeInPeriod} [${describeStrength(ev.situationCode, perspective)}]: GOAL ${ev.teamAbbrev} ${playerName(ev.scorer)}${a1 ? ` from ${a1.name}` : ""}${a2 ? `, ${a2.name}` : ""} (${ev.shotType ?? "?"}, ${zone}) - ${ev.score.away}-${ev.score.home}`;
+    }
+    case "penalty":
+      return `${ev.period} ${ev.timeInPeriod}: PENALTY ${ev.teamAbbrev} ${playerName(ev.committedBy)} - ${ev.descKey} ${ev.duration}min${ev.drawnBy ? ` drawn by ${ev.drawnBy.name}` : ""}`;
+    case "fight":
+      return `${ev.period} ${ev.timeInPeriod}: FIGHT ${ev.teamAbbrev} ${playerName(ev.committedBy)} vs ${playerName(ev.drawnBy)}`;
+  }
+}
+
+// The prose form of the timeline that goes into the review prompt. Strengths
+// are written from the tracked team's side, e.g. 5v4 means they had the extra man.
+export function renderTimelineNarrative(timeline: GameTimeline, teamAbbrev: string = getTeamConfig().abbrev): string {
+  const perspective: TeamSide = timeline.home.abbrev === teamAbbrev ? "home" : "away";
+  const hAbbrev = timeline.home.abbrev;
+  const aAbbrev = timeline.away.abbrev;
+  const aggLines = timeline.periods.map(({ label, home, away }) =>
+    `${label}: ${aAbbrev} ${away.shots}SOG/${away.hits}H/${away.takeaways}TK/${away.giveaways}GV/${away.blocks}BLK/${away.faceoffWins}FOW | ${hAbbrev} ${home.shots}SOG/${home.hits}H/${home.takeaways}TK/${home.giveaways}GV/${home.blocks}BLK/${home.faceoffWins}FOW`
+  );
+  const eventLog = timeline.events.map((ev) => renderEvent(ev, perspective));
+  const shotAttempts = renderShotAttempts(computeShotAttempts(timeline), timeline);
+  const expectedGoals = renderExpectedGoals(computeExpectedGoals(timeline), timeline);
+  const goaliePulls = renderGoaliePulls(timeline.goaliePulls);
+
+  return `PERIOD-BY-PERIOD STATS:\n${aggLines.join("\n")}\n\nSHOT ATTEMPTS:\n${shotAttempts}\n\nEXPECTED GOALS:\n${expectedGoals}\n\nGOALIE PULLS:\n${goaliePulls}\n\nKEY EVENTS (strength as ${teamAbbrev} skaters v opponent):\n${eventLog.join("\n")}`;
+}
+
+export function distillPlayByPlay(pbp: PlayByPlayResponse): string {
+  return renderTimelineNarrative(buildGameTimeline(pbp));
 }
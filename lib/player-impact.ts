@@ -0,0 +1,217 @@
+// Per-player impact ratings from the boxscore plus what only the play-by-play
+// knows: primary assists, penalties drawn, giveaways that ended up in the net,
+// individual expected goals and goals saved above expected. The weights are a
+// judgement call, tuned so a two-goal night and a 40-save steal land in the
+// same range and a couple of bad penalties can sink an otherwise quiet game.
+
+import type { BoxscoreResponse, GoalieStats, PlayByPlayResponse, PlayerStats } from "./nhl-types";
+import type { GameTimeline, TeamSide } from "./play-by-play";
+import { elapsedSeconds, parseClock } from "./play-by-play";
+import { computeExpectedGoals } from "./expected-goals";
+
+export interface ImpactComponent {
+  label: string;
+  count: number;
+  value: number;
+}
+
+export interface PlayerImpact {
+  playerId: number;
+  name: string;
+  position: string;
+  teamAbbrev: string;
+  // Plays for the tracked team
+  ours: boolean;
+  score: number;
+  components: ImpactComponent[];
+}
+
+export interface PlayerImpactReport {
+  players: PlayerImpact[];
+  // Best and worst on the tracked team
+  hero: PlayerImpact | null;
+  goat: PlayerImpact | null;
+}
+
+const WEIGHTS = {
+  goals: 1.0,
+  primaryAssists: 0.7,
+  secondaryAssists: 0.4,
+  expectedGoals: 0.5,
+  plusMinus: 0.3,
+  shots: 0.05,
+  hits: 0.05,
+  blockedShots: 0.1,
+  takeaways: 0.15,
+  giveaways: -0.15,
+  costlyGiveaways: -0.75,
+  penaltyMinutes: -0.2,
+  penaltiesDrawn: 0.35,
+  goalsSavedAboveExpected: 1.2,
+};
+
+// A giveaway that turns into a goal against this quickly gets the blame
+const COSTLY_GIVEAWAY_SECONDS = 15;
+
+// Below this a player barely played and shouldn't be hero or goat
+const MIN_SKATER_TOI_SECONDS = 5 * 60;
+
+interface EventCounts {
+  primaryAssists: number;
+  secondaryAssists: number;
+  penaltiesDrawn: number;
+  costlyGiveaways: number;
+  expectedGoals: number;
+  xgFaced: number;
+  goalsFaced: number;
+}
+
+function countEvents(pbp: PlayByPlayResponse, timeline: GameTimeline): Map<number, EventCounts> {
+  const counts = new Map<number, EventCounts>();
+  const get = (id: number) => {
+    if (!counts.has(id)) {
+      counts.set(id, {
+        primaryAssists: 0,
+        secondaryAssists: 0,
+        penaltiesDrawn: 0,
+        costlyGiveaways: 0,
+        expectedGoals: 0,
+        xgFaced: 0,
+        goalsFaced: 0,
+      });
+    }
+    return counts.get(id)!;
+  };
+
+  const plays = pbp.plays.filter((p) => p.periodDescriptor.periodType !== "SO");
+  plays.forEach((play, i) => {
+    const d = play.details;
+    if (!d) return;
+    if (play.typeDescKey === "goal") {
+      if (d.assist1PlayerId) get(d.assist1PlayerId).primaryAssists++;
+      if (d.assist2PlayerId) get(d.assist2PlayerId).secondaryAssists++;
+    } else if (play.typeDescKey === "penalty" && d.drawnByPlayerId) {
+      get(d.drawnByPlayerId).penaltiesDrawn++;
+    } else if (play.typeDescKey === "giveaway" && d.playerId) {
+      const at = elapsedSeconds(play);
+      const conceded = plays.slice(i + 1).find((next) =>
+        elapsedSeconds(next) - at <= COSTLY_GIVEAWAY_SECONDS
+        && next.typeDescKey === "goal"
+        && next.details?.eventOwnerTeamId !== d.eventOwnerTeamId
+      );
+      if (conceded) get(d.playerId).costlyGiveaways++;
+    }
+  });
+
+  // Individual xG for shooters, and xG faced by whoever was in net
+  const goalieInNet = new Map(plays.map((p) => [p.eventId, p.details?.goalieInNetId]));
+  for (const value of computeExpectedGoals(timeline).shots) {
+    if (value.shot.shooter) get(value.shot.shooter.id).expectedGoals += value.xg;
+    const goalieId = goalieInNet.get(value.shot.eventId);
+    if (goalieId) {
+      get(goalieId).xgFaced += value.xg;
+      if (value.shot.kind === "goal") get(goalieId).goalsFaced++;
+    }
+  }
+
+  return counts;
+}
+
+function component(label: string, count: number, weight: number): ImpactComponent {
+  return { label, count, value: count * weight };
+}
+
+function skaterImpact(s: PlayerStats, events: EventCounts | undefined): ImpactComponent[] {
+  return [
+    component("goals", s.goals, WEIGHTS.goals),
+    component("primary assists", events?.primaryAssists ?? 0, WEIGHTS.primaryAssists),
+    component("secondary assists", events?.secondaryAssists ?? 0, WEIGHTS.secondaryAssists),
+    component("expected goals", Number((events?.expectedGoals ?? 0).toFixed(2)), WEIGHTS.expectedGoals),
+    component("plus/minus", s.plusMinus, WEIGHTS.plusMinus),
+    component("shots", s.sog, WEIGHTS.shots),
+    component("hits", s.hits, WEIGHTS.hits),
+    component("blocked shots", s.blockedShots, WEIGHTS.blockedShots),
+    component("takeaways", s.takeaways, WEIGHTS.takeaways),
+    component("giveaways", s.giveaways, WEIGHTS.giveaways),
+    component("giveaways that led to goals", events?.costlyGiveaways ?? 0, WEIGHTS.costlyGiveaways),
+    component("penalty minutes", s.pim, WEIGHTS.penaltyMinutes),
+    component("penalties drawn", events?.penaltiesDrawn ?? 0, WEIGHTS.penaltiesDrawn),
+  ];
+}
+
+function goalieImpact(g: GoalieStats, events: EventCounts | undefined): ImpactComponent[] {
+  const gsax = (events?.xgFaced ?? 0) - (events?.goalsFaced ?? 0);
+  return [
+    component("goals saved above expected", Number(gsax.toFixed(2)), WEIGHTS.goalsSavedAboveExpected),
+    component("penalty minutes", g.pim ?? 0, WEIGHTS.penaltyMinutes),
+    component("penalties drawn", events?.penaltiesDrawn ?? 0, WEIGHTS.penaltiesDrawn),
+  ];
+}
+
+function total(components: ImpactComponent[]): number {
+  return Number(components.reduce((sum, c) => sum + c.value, 0).toFixed(2));
+}
+
+export function computePlayerImpact(
+  boxscore: BoxscoreResponse,
+  pbp: PlayByPlayResponse,
+  timeline: GameTimeline,
+  teamAbbrev: string
+): PlayerImpactReport {
+  const events = countEvents(pbp, timeline);
+  const players: PlayerImpact[] = [];
+  const eligible = new Set<PlayerImpact>();
+
+  for (const side of ["away", "home"] as TeamSide[]) {
+    const stats = boxscore.playerByGameStats?.[side === "home" ? "homeTeam" : "awayTeam"];
+    if (!stats) continue;
+    const abbrev = timeline[side].abbrev;
+    const base = (id: number, name: string, position: string) =>
+      ({ playerId: id, name, position, teamAbbrev: abbrev, ours: abbrev === teamAbbrev });
+
+    for (const s of [...stats.forwards, ...stats.defense]) {
+      const components = skaterImpact(s, events.get(s.playerId));
+      const impact = { ...base(s.playerId, s.name.default, s.position), score: total(components), components };
+      players.push(impact);
+      if (parseClock(s.toi) >= MIN_SKATER_TOI_SECONDS) eligible.add(impact);
+    }
+    for (const g of stats.goalies) {
+      // A backup who never got in has nothing to be judged on
+      if (parseClock(g.toi) === 0) continue;
+      const components = goalieImpact(g, events.get(g.playerId));
+      const impact = { ...base(g.playerId, g.name.default, g.position), score: total(components), components };
+      players.push(impact);
+      eligible.add(impact);
+    }
+  }
+
+  players.sort((a, b) => b.score - a.score);
+  const ours = players.filter((p) => p.ours && eligible.has(p));
+  return {
+    players,
+    hero: ours[0] ?? null,
+    goat: ours.length > 1 ? ours[ours.length - 1] : null,
+  };
+}
+
+// The components that actually moved the score, biggest first
+export function describeImpact(player: PlayerImpact, limit = 3): string[] {
+  return player.components
+    .filter((c) => Math.abs(c.value) >= 0.25)
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+    .slice(0, limit)
+    .map((c) => `${c.count} ${c.label}`);
+}
+
+export function renderPlayerImpact(report: PlayerImpactReport): string {
+  const line = (p: PlayerImpact) => {
+    const reasons = describeImpact(p);
+    return `${p.name} (${p.teamAbbrev}, ${p.position}): impact ${p.score.toFixed(2)}${reasons.length > 0 ? ` from ${reasons.join(", ")}` : ""}`;
+  };
+  const lines: string[] = [];
+  if (report.hero) lines.push(`HERO: ${line(report.hero)}`);
+  if (report.goat) lines.push(`GOAT: ${line(report.goat)}`);
+  const opponentBest = report.players.find((p) => !p.ours);
+  if (opponentBest) lines.push(`OPPONENT'S BEST: ${line(opponentBest)}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,163 @@
+// Pre-game previews. Once the next game is inside the preview window the cron
+// writes a short preview from recent form, the history against the opponent and
+// the goalies each side has been leaning on, and stores it on its own.
+
+import type { Game, MatchupGoalie, StoredGame } from "./nhl-types";
+import { nhlApi } from "./nhl-api";
+import type { NhlApiClient } from "./nhl-api";
+import { getTeamConfig } from "./team";
+import type { TeamConfig } from "./team";
+import { buildRecord, buildSeason, formatRecord, getSeason, getSeasonPhase } from "./season";
+import type { TeamRecord } from "./season";
+import { buildUpcomingHistory, renderHistoricalContext } from "./history";
+import type { HistoricalContext } from "./history";
+import type { ReviewGenerator } from "./review-generator";
+import { generateWithStyleRules, resolveReviewGenerator } from "./review";
+import type { ReviewPrompt } from "./review";
+import { getStyleRules, houseRulesInstruction } from "./style-rules";
+import type { StyleRuleId } from "./style-rules";
+import { DEFAULT_PERSONA, PERSONAS } from "./personas";
+import type { Persona } from "./personas";
+
+export interface PreviewConfig {
+  // How long before puck drop the preview gets written
+  windowHours: number;
+}
+
+const DEFAULT_WINDOW_HOURS = 24;
+
+export function getPreviewConfig(env: NodeJS.ProcessEnv = process.env): PreviewConfig {
+  const raw = env.PREVIEW_WINDOW_HOURS;
+  const windowHours = raw !== undefined && raw !== "" ? parseFloat(raw) : DEFAULT_WINDOW_HOURS;
+  if (Number.isNaN(windowHours) || windowHours <= 0) {
+    throw new Error(`PREVIEW_WINDOW_HOURS "${raw}" is not a positive number`);
+  }
+  return { windowHours };
+}
+
+export function isInPreviewWindow(game: Pick<Game, "startTimeUTC">, now: number, config: PreviewConfig): boolean {
+  const msUntil = new Date(game.startTimeUTC).getTime() - now;
+  return msUntil > 0 && msUntil <= config.windowHours * 60 * 60 * 1000;
+}
+
+export interface OpponentForm {
+  record: TeamRecord;
+  lastTen: TeamRecord;
+}
+
+export interface PreviewContext {
+  game: Game;
+  isLeafsHome: boolean;
+  opponent: string;
+  opponentAbbrev: string;
+  // Our streak, form and history against the opponent, up to this game
+  history: HistoricalContext | null;
+  opponentForm: OpponentForm | null;
+  // Null when the landing has no matchup yet, which is common a day out
+  goalies: { team: MatchupGoalie[]; opponent: MatchupGoalie[] } | null;
+}
+
+async function getOpponentForm(abbrev: string, game: Game, client: NhlApiClient): Promise<OpponentForm | null> {
+  try {
+    const { data } = await client.getSchedule(abbrev);
+    const season = buildSeason(data, { abbrev });
+    const phase = getSeasonPhase(game);
+    const played = season.games.filter((g) => g.isFinal && g.phase === phase);
+    return {
+      record: phase === "playoffs" ? season.playoffs : season.regular,
+      lastTen: buildRecord(played.slice(-10)),
+    };
+  } catch (error) {
+    console.error(`Failed to fetch the ${abbrev} schedule:`, error);
+    return null;
+  }
+}
+
+export async function loadPreviewContext(
+  game: Game,
+  client: NhlApiClient = nhlApi,
+  options: { archive?: StoredGame[] } = {}
+): Promise<PreviewContext> {
+  const team = getTeamConfig();
+  const isLeafsHome = game.homeTeam.abbrev === team.abbrev;
+  const them = isLeafsHome ? game.awayTeam : game.homeTeam;
+  const archive = options.archive ?? [];
+
+  // Everything here is optional, a preview from the schedule alone is still a preview
+  const [season, opponentForm, landing] = await Promise.all([
+    getSeason(client),
+    getOpponentForm(them.abbrev, game, client),
+    client.getLanding(game.id).then((r) => r.data, () => null),
+  ]);
+
+  const comparison = landing?.matchup?.goalieComparison;
+  return {
+    game,
+    isLeafsHome,
+    opponent: them.placeName.default,
+    opponentAbbrev: them.abbrev,
+    history: season || archive.length > 0 ? buildUpcomingHistory(game, season, archive) : null,
+    opponentForm,
+    goalies: comparison
+      ? {
+          team: isLeafsHome ? comparison.homeTeam : comparison.awayTeam,
+          opponent: isLeafsHome ? comparison.awayTeam : comparison.homeTeam,
+        }
+      : null,
+  };
+}
+
+const formatGoalie = (g: MatchupGoalie) =>
+  `${g.name.default}: ${g.gamesPlayed} GP, ${g.record}, ${g.gaa.toFixed(2)} GAA, ${(g.savePctg * 100).toFixed(1)}%`;
+
+export function buildPreviewPrompt(
+  context: PreviewContext,
+  persona: Persona = PERSONAS[DEFAULT_PERSONA],
+  team: TeamConfig = getTeamConfig()
+): ReviewPrompt {
+  const systemInstruction = `${persona.voice(team)} This time the game hasn't been played yet, so you're writing a short preview instead of a recap.
+
+${houseRulesInstruction(team)}
+
+Write one short paragraph setting up the game. Use the recent form, the history against this opponent and the goalies if you're given them, but only the facts in the data. Don't predict a final score. The goalies listed are each team's season numbers, nobody has confirmed a starter, so don't say who is starting. No headers or titles, just the preview text.`;
+
+  const goalies = context.goalies
+    ? `GOALIES (season numbers, starters not confirmed):
+${team.shortName}: ${context.goalies.team.slice(0, 2).map(formatGoalie).join("; ") || "Not available"}
+${context.opponent}: ${context.goalies.opponent.slice(0, 2).map(formatGoalie).join("; ") || "Not available"}`
+    : "";
+
+  const opponentForm = context.opponentForm
+    ? `${context.opponent.toUpperCase()} FORM: ${formatRecord(context.opponentForm.record)} (${context.opponentForm.record.points} pts), ${formatRecord(context.opponentForm.lastTen)} in their last ${context.opponentForm.lastTen.gamesPlayed}`
+    : "";
+
+  const prompt = [
+    `UPCOMING GAME:
+- Date: ${context.game.gameDate}
+- ${team.shortName} ${context.isLeafsHome ? "at home vs" : "on the road against"} ${context.opponent}`,
+    context.history ? `${team.shortName.toUpperCase()} SO FAR:\n${renderHistoricalContext(context.history, context.opponent)}` : "",
+    opponentForm,
+    goalies,
+  ].filter(Boolean).join("\n\n");
+
+  return { systemInstruction, prompt };
+}
+
+export interface GeneratedPreview {
+  preview: string | null;
+  styleRulesHit: StyleRuleId[];
+}
+
+export async function generatePreview(
+  context: PreviewContext,
+  options: { generator?: ReviewGenerator; persona?: Persona } = {}
+): Promise<GeneratedPreview> {
+  const persona = options.persona ?? PERSONAS[DEFAULT_PERSONA];
+
+  const backend = resolveReviewGenerator(options.generator);
+  if (!backend) return { preview: null, styleRulesHit: [] };
+
+  const rules = [...getStyleRules(), ...(persona.styleRules ?? [])];
+  const { text, styleRulesHit } = await generateWithStyleRules(backend, buildPreviewPrompt(context, persona), rules, "preview");
+  return { preview: text, styleRulesHit };
+}
@@ -0,0 +1,135 @@
+// Per-game recap processing status for the cron. Every finished game gets an
+// entry, failed attempts back off exponentially, and a game that keeps failing
+// ends up in dead-letter instead of being retried forever.
+
+import type { Game } from "./nhl-types";
+
+export type ProcessingStatus =
+  // Known, but the game data hasn't come back complete yet
+  | "pending"
+  // Data is in and generation started, a run that dies here is retried like a failure
+  | "data-fetched"
+  // Only the template recap got published, the real one is still owed
+  | "generation-failed"
+  | "published"
+  // Out of attempts, needs a look or a backfill
+  | "dead-letter";
+
+export interface GameProcessingState {
+  gameId: number;
+  gameDate: string;
+  status: ProcessingStatus;
+  attempts: number;
+  lastAttemptAt?: string;
+  // Unset once there's nothing left to retry
+  nextAttemptAt?: string;
+  lastError?: string;
+}
+
+// The whole map lives under one state key, keyed by game id
+export type ProcessingStates = Record<string, GameProcessingState>;
+
+export interface RetryConfig {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 6;
+const DEFAULT_BASE_DELAY_MINUTES = 5;
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+// Long enough for someone to notice a dead-letter game and backfill it
+const DEAD_LETTER_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function getRetryConfig(env: NodeJS.ProcessEnv = process.env): RetryConfig {
+  const rawAttempts = env.REVIEW_MAX_ATTEMPTS;
+  const maxAttempts = rawAttempts !== undefined && rawAttempts !== "" ? Number(rawAttempts) : DEFAULT_MAX_ATTEMPTS;
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new Error(`REVIEW_MAX_ATTEMPTS "${rawAttempts}" is not a positive whole number`);
+  }
+
+  const rawDelay = env.REVIEW_RETRY_BASE_MINUTES;
+  const baseMinutes = rawDelay !== undefined && rawDelay !== "" ? parseFloat(rawDelay) : DEFAULT_BASE_DELAY_MINUTES;
+  if (Number.isNaN(baseMinutes) || baseMinutes <= 0) {
+    throw new Error(`REVIEW_RETRY_BASE_MINUTES "${rawDelay}" is not a positive number`);
+  }
+
+  return { maxAttempts, baseDelayMs: baseMinutes * 60 * 1000, maxDelayMs: MAX_DELAY_MS };
+}
+
+export function newProcessingState(game: Pick<Game, "id" | "gameDate">): GameProcessingState {
+  return { gameId: game.id, gameDate: game.gameDate, status: "pending", attempts: 0 };
+}
+
+// Counted when the attempt starts, so a run that times out mid-generation still uses one up
+export function startAttempt(state: GameProcessingState, now: number): GameProcessingState {
+  return { ...state, attempts: state.attempts + 1, lastAttemptAt: new Date(now).toISOString(), nextAttemptAt: undefined };
+}
+
+export function retryDelayMs(attempts: number, config: RetryConfig): number {
+  return Math.min(config.baseDelayMs * 2 ** Math.max(attempts - 1, 0), config.maxDelayMs);
+}
+
+export function recordFailure(
+  state: GameProcessingState,
+  status: "pending" | "generation-failed",
+  error: string,
+  now: number,
+  config: RetryConfig
+): GameProcessingState {
+  if (state.attempts >= config.maxAttempts) {
+    return { ...state, status: "dead-letter", nextAttemptAt: undefined, lastError: error };
+  }
+  return {
+    ...state,
+    status,
+    nextAttemptAt: new Date(now + retryDelayMs(state.attempts, config)).toISOString(),
+    lastError: error,
+  };
+}
+
+export function markPublished(state: GameProcessingState): GameProcessingState {
+  return { ...state, status: "published", nextAttemptAt: undefined, lastError: undefined };
+}
+
+// Out of attempts but never marked, which is what a run that died on its last attempt leaves behind
+function isExhausted(state: GameProcessingState, config: RetryConfig): boolean {
+  return state.status !== "published" && state.status !== "dead-letter" && state.attempts >= config.maxAttempts;
+}
+
+export function isRetryDue(state: GameProcessingState, now: number, config: RetryConfig): boolean {
+  if (state.status === "published" || state.status === "dead-letter" || isExhausted(state, config)) return false;
+  if (!state.lastAttemptAt) return true;
+  // A data-fetched entry with no schedule is a run that died, give it the usual backoff
+  const due = state.nextAttemptAt
+    ? new Date(state.nextAttemptAt).getTime()
+    : new Date(state.lastAttemptAt).getTime() + retryDelayMs(state.attempts, config);
+  return due <= now;
+}
+
+// Oldest first, so a game that's been waiting longest goes next
+export function nextRetry(states: ProcessingStates, now: number, config: RetryConfig): GameProcessingState | null {
+  const due = Object.values(states)
+    .filter((s) => isRetryDue(s, now, config))
+    .sort((a, b) => a.gameDate.localeCompare(b.gameDate) || a.gameId - b.gameId);
+  return due[0] ?? null;
+}
+
+// The entries isRetryDue already treats as dead-letter, moved there for real
+export function settleExhausted(states: ProcessingStates, config: RetryConfig): GameProcessingState[] {
+  return Object.values(states)
+    .filter((s) => isExhausted(s, config))
+    .map((s) => ({ ...s, status: "dead-letter", nextAttemptAt: undefined, lastError: s.lastError ?? "Ran out of attempts" }));
+}
+
+// What's left worth keeping once a game is settled. Published games are done with,
+// dead-letter ones go once they've sat past the retention window.
+export function pruneProcessingStates(states: ProcessingStates, now: number): ProcessingStates {
+  return Object.fromEntries(
+    Object.entries(states).filter(([, s]) => {
+      if (s.status === "published") return false;
+      if (s.status !== "dead-letter") return true;
+      return new Date(s.lastAttemptAt ?? s.gameDate).getTime() + DEAD_LETTER_RETENTION_MS > now;
+    })
+  );
+}
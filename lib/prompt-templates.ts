@@ -0,0 +1,188 @@
+// Review prompts, versioned. A template turns a GameContext into the system
+// instruction and prompt, and the version it carries is stored with every
+// recap. Change a prompt by adding a new version rather than editing an old
+// one, otherwise stored recaps no longer say what produced them.
+
+import type {
+  PenaltyPeriod,
+  ScoringPeriod,
+  ThreeStar,
+  PlayerStats,
+  GoalieStats,
+  TeamGameStats,
+} from "./nhl-types";
+import type { GameContext } from "./game-context";
+import type { Persona } from "./personas";
+import type { TeamConfig } from "./team";
+import { renderSpecialTeams } from "./special-teams";
+import { renderLeadSummary } from "./lead-tracking";
+import { renderPlayerImpact } from "./player-impact";
+import { renderHistoricalContext } from "./history";
+import { houseRulesInstruction } from "./style-rules";
+
+export type PromptVersion = "v1" | "v2";
+
+export interface PromptTemplate {
+  version: PromptVersion;
+  systemInstruction(context: GameContext, persona: Persona, team: TeamConfig): string;
+  prompt(context: GameContext, team: TeamConfig): string;
+}
+
+export const CURRENT_PROMPT_VERSION: PromptVersion = "v2";
+
+const formatScoring = (scoring: ScoringPeriod[]) =>
+  scoring
+    .flatMap((period) =>
+      period.goals.map((g) => {
+        const periodLabel =
+          period.periodDescriptor.periodType === "OT"
+            ? "OT"
+            : period.periodDescriptor.periodType === "SO"
+            ? "SO"
+            : `P${period.periodDescriptor.number}`;
+        const assists = g.assists.length === 0
+          ? "unassisted"
+          : g.assists.filter(Boolean).map((a) => `${a.firstName?.default ?? ""} ${a.lastName?.default ?? ""}`.trim() || "Unknown").join(", ");
+        const modifiers = [
+          g.strength !== "ev" ? g.strength.toUpperCase() : "",
+          g.goalModifier === "empty-net" ? "EN" : "",
+        ].filter(Boolean).join(", ");
+        const modStr = modifiers ? ` [${modifiers}]` : "";
+        const scorerName = `${g.firstName?.default ?? ""} ${g.lastName?.default ?? ""}`.trim() || "Unknown";
+        const goalCount = g.goalsToDate ? ` - season goal #${g.goalsToDate}` : "";
+        return `${periodLabel} ${g.timeInPeriod}: ${scorerName} (${g.teamAbbrev.default}, ${g.shotType})${modStr}${goalCount}. Assists: ${assists}`;
+      })
+    )
+    .join("\n");
+
+const formatThreeStars = (threeStars: ThreeStar[]) =>
+  threeStars
+    .map((s) => {
+      const name = s.name.default;
+      const stats =
+        s.position === "G"
+          ? `${((s.savePctg ?? 0) * 100).toFixed(1)}% save pct`
+          : `${s.goals ?? 0}G, ${s.assists ?? 0}A`;
+      return `${s.star}. ${name} (${s.teamAbbrev}) - ${stats}`;
+    })
+    .join("\n");
+
+const formatPenalties = (penalties: PenaltyPeriod[]) =>
+  penalties
+    .flatMap((period) =>
+      period.penalties.map((p) => {
+        const periodLabel =
+          period.periodDescriptor.periodType === "OT"
+            ? "OT"
+            : `P${period.periodDescriptor.number}`;
+        const drawnByStr = p.drawnBy ? ` drawn by ${p.drawnBy.firstName.default} ${p.drawnBy.lastName.default}` : "";
+        const committedBy = p.committedByPlayer ? `${p.committedByPlayer.firstName.default} ${p.committedByPlayer.lastName.default}` : "Team";
+        return `${periodLabel} ${p.timeInPeriod}: ${committedBy} (${p.teamAbbrev.default}) - ${p.descKey} ${p.duration}min${drawnByStr}`;
+      })
+    )
+    .join("\n");
+
+const formatSkaterLine = (s: PlayerStats) =>
+  `${s.name.default} (${s.position}): ${s.goals}G ${s.assists}A ${s.points}P, ${s.plusMinus >= 0 ? "+" : ""}${s.plusMinus}, ${s.sog} SOG, ${s.hits} hits, ${s.toi} TOI${s.faceoffWinningPctg > 0 ? `, ${(s.faceoffWinningPctg * 100).toFixed(0)}% FO` : ""}`;
+
+const formatGoalieLine = (g: GoalieStats) =>
+  `${g.name.default}: ${g.saveShotsAgainst} saves (${(g.savePctg * 100).toFixed(1)}%), ${g.toi} TOI${g.decision ? `, ${g.decision}` : ""}`;
+
+// Copies before sorting, the context is shared by every persona's prompt
+const formatSkaters = (skaters: PlayerStats[]) =>
+  [...skaters]
+    .sort((a, b) => b.points - a.points || b.goals - a.goals || b.sog - a.sog)
+    .map(formatSkaterLine)
+    .join("\n");
+
+const formatTeamStats = (name: string, stats: TeamGameStats) => {
+  const specialTeams = stats.specialTeams
+    ? renderSpecialTeams(stats.specialTeams)
+    : `${stats.powerPlay} power play`;
+  return `${name.toUpperCase()} TEAM STATS: ${stats.sog} shots, ${specialTeams}, ${stats.pim} PIM`;
+};
+
+// Later versions add to the v1 wording through these hooks, v1 itself passes nothing
+function baseSystemInstruction(persona: Persona, team: TeamConfig, extra = ""): string {
+  return `${persona.voice(team)}
+
+${houseRulesInstruction(team, " Just talk about the game itself.")}
+
+You will be given detailed game data including player stats, penalties, and period-by-period stats from the most recent ${team.shortName} game. Write a 2-3 paragraph game recap. ${persona.attitude(team)}${extra} Reference specific players, moments, and stats from the data. Use the period-by-period stats to identify which team dominated each period. Use player stats to highlight standout performances, rough nights, and interesting details. Keep it punchy and entertaining, avoid complete despair and keep it playful and light hearted. No headers or titles, just the recap text. Penalties and fights should be highlighted.`;
+}
+
+function basePrompt(context: GameContext, team: TeamConfig, sections: { afterResult?: string } = {}): string {
+  const { game, metadata: m } = context;
+
+  return `GAME DATA:
+- Date: ${game.gameDate}
+- Result: ${team.shortName} ${m.didLose ? "LOST" : "WON"} ${m.leafsScore}-${m.opponentScore} ${m.isLeafsHome ? "at home vs" : "on the road against"} ${m.opponent}
+${m.wasOT ? "- Game went to overtime" : ""}${m.wasSO ? "- Decided in a shootout" : ""}${sections.afterResult ?? ""}
+
+GOALS:
+${formatScoring(context.scoring) || "No goals"}
+
+PENALTIES:
+${formatPenalties(context.penalties) || "None"}
+
+THREE STARS:
+${formatThreeStars(context.threeStars) || "Not available"}
+
+${context.leafsStats ? formatTeamStats(team.shortName, context.leafsStats) : ""}
+${context.opponentStats ? formatTeamStats(m.opponent, context.opponentStats) : ""}
+
+${team.shortName.toUpperCase()} PLAYER STATS:
+${context.leafsGoalies.map(formatGoalieLine).join("\n") || "Not available"}
+${formatSkaters(context.leafsSkaters) || "Not available"}
+
+${m.opponent.toUpperCase()} PLAYER STATS:
+${context.opponentGoalies.map(formatGoalieLine).join("\n") || "Not available"}
+${formatSkaters(context.opponentSkaters) || "Not available"}
+
+${context.leadSummary ? `SCORE STATE:\n${renderLeadSummary(context.leadSummary)}` : ""}
+
+${context.playerImpact ? `PLAYER IMPACT (praise the hero and roast the goat by name):\n${renderPlayerImpact(context.playerImpact)}` : ""}
+
+${context.playByPlayNarrative}`;
+}
+
+const v1: PromptTemplate = {
+  version: "v1",
+  systemInstruction: (_context, persona, team) => baseSystemInstruction(persona, team),
+  prompt: (context, team) => basePrompt(context, team),
+};
+
+// v2: streak, recent form, season record and head-to-head history
+const v2: PromptTemplate = {
+  version: "v2",
+  systemInstruction: (context, persona, team) =>
+    baseSystemInstruction(
+      persona,
+      team,
+      context.history
+        ? " Work in the season context where it's funny (streaks, recent form, history against this opponent), but only the facts you're given."
+        : ""
+    ),
+  prompt: (context, team) => {
+    const history = context.history ? renderHistoricalContext(context.history, context.metadata.opponent) : "";
+    return basePrompt(context, team, {
+      afterResult: history ? `\n\nSEASON CONTEXT (this game included):\n${history}` : "",
+    });
+  },
+};
+
+export const PROMPT_TEMPLATES: Record<PromptVersion, PromptTemplate> = { v1, v2 };
+
+const isPromptVersion = (version: string): version is PromptVersion => version in PROMPT_TEMPLATES;
+
+export function getPromptTemplate(version: string = CURRENT_PROMPT_VERSION): PromptTemplate {
+  if (!isPromptVersion(version)) {
+    throw new Error(`Unknown prompt version "${version}", expected one of ${Object.keys(PROMPT_TEMPLATES).join(", ")}`);
+  }
+  return PROMPT_TEMPLATES[version];
+}
+
+// PROMPT_VERSION pins an older template, e.g. to regenerate a game for comparison
+export function getConfiguredPromptTemplate(env: NodeJS.ProcessEnv = process.env): PromptTemplate {
+  return getPromptTemplate(env.PROMPT_VERSION || CURRENT_PROMPT_VERSION);
+}
@@ -0,0 +1,154 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { ReviewPrompt } from "./review";
+
+export type ReviewProvider = "gemini" | "openai" | "fake";
+
+export interface ReviewGeneratorConfig {
+  provider: ReviewProvider;
+  model: string;
+  temperature?: number;
+  apiKey?: string;
+  // Only used by the OpenAI-compatible backend, e.g. http://localhost:11434/v1
+  baseUrl?: string;
+}
+
+// Resolves to the recap text. Backends throw on failure and leave logging to the caller.
+export interface ReviewGenerator {
+  readonly name: string;
+  generate(prompt: ReviewPrompt): Promise<string>;
+}
+
+export class ReviewGeneratorError extends Error {
+  constructor(
+    message: string,
+    readonly provider: ReviewProvider
+  ) {
+    super(message);
+    this.name = "ReviewGeneratorError";
+  }
+}
+
+const DEFAULT_MODELS: Record<ReviewProvider, string | undefined> = {
+  gemini: "gemini-3-flash-preview",
+  // There's no sensible default across local servers and hosted APIs
+  openai: undefined,
+  fake: "fake",
+};
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const OPENAI_TIMEOUT_MS = 120_000;
+
+export function getReviewGeneratorConfig(env: NodeJS.ProcessEnv = process.env): ReviewGeneratorConfig {
+  const provider = (env.REVIEW_PROVIDER ?? "gemini").toLowerCase();
+  if (provider !== "gemini" && provider !== "openai" && provider !== "fake") {
+    throw new Error(`Unknown REVIEW_PROVIDER "${provider}", expected "gemini", "openai" or "fake"`);
+  }
+
+  const model = env.REVIEW_MODEL ?? DEFAULT_MODELS[provider];
+  if (!model) {
+    throw new Error(`REVIEW_MODEL must be set for the ${provider} provider`);
+  }
+
+  const temperature = env.REVIEW_TEMPERATURE !== undefined ? parseFloat(env.REVIEW_TEMPERATURE) : undefined;
+  if (temperature !== undefined && Number.isNaN(temperature)) {
+    throw new Error(`REVIEW_TEMPERATURE "${env.REVIEW_TEMPERATURE}" is not a number`);
+  }
+
+  return {
+    provider,
+    model,
+    temperature,
+    apiKey: provider === "gemini" ? env.GEMINI_API_KEY : provider === "openai" ? env.OPENAI_API_KEY : undefined,
+    baseUrl: provider === "openai" ? env.OPENAI_BASE_URL ?? DEFAULT_OPENAI_BASE_URL : undefined,
+  };
+}
+
+export function createGeminiGenerator(config: ReviewGeneratorConfig): ReviewGenerator {
+  if (!config.apiKey) {
+    throw new ReviewGeneratorError("GEMINI_API_KEY not set", "gemini");
+  }
+  const genAI = new GoogleGenerativeAI(config.apiKey);
+
+  return {
+    name: `gemini:${config.model}`,
+    async generate({ systemInstruction, prompt }) {
+      const model = genAI.getGenerativeModel({
+        model: config.model,
+        systemInstruction,
+        generationConfig: config.temperature !== undefined ? { temperature: config.temperature } : undefined,
+      });
+      const result = await model.generateContent(prompt);
+      return result.response.text();
+    },
+  };
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+// Anything that speaks the /chat/completions shape: OpenAI itself, llama.cpp,
+// Ollama, vLLM or a stub server in front of the fixtures
+export function createOpenAiCompatibleGenerator(
+  config: ReviewGeneratorConfig,
+  fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+): ReviewGenerator {
+  const baseUrl = (config.baseUrl ?? DEFAULT_OPENAI_BASE_URL).replace(/\/$/, "");
+  const url = `${baseUrl}/chat/completions`;
+
+  return {
+    name: `openai:${config.model}@${baseUrl}`,
+    async generate({ systemInstruction, prompt }) {
+      const res = await fetchImpl(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          temperature: config.temperature,
+          messages: [
+            { role: "system", content: systemInstruction },
+            { role: "user", content: prompt },
+          ],
+        }),
+        signal: AbortSignal.timeout(OPENAI_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        throw new ReviewGeneratorError(`${url} responded ${res.status}: ${await res.text()}`, "openai");
+      }
+      const body = (await res.json()) as ChatCompletionResponse;
+      const content = body.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new ReviewGeneratorError(`${url} returned no message content`, "openai");
+      }
+      return content;
+    },
+  };
+}
+
+// Same prompt in, same recap out, so runs against fixtures can be compared
+export function createFakeGenerator(): ReviewGenerator {
+  return {
+    name: "fake",
+    async generate({ prompt }) {
+      const result = prompt.match(/^- Result: (.*)$/m)?.[1] ?? "Result unknown";
+      const goals = prompt.match(/^GOALS:\n([\s\S]*?)\n\n/m)?.[1].split("\n").length ?? 0;
+      return [
+        `${result}.`,
+        `This is a placeholder recap from the fake review generator, written from a prompt of ${prompt.length} characters covering ${goals} goal lines.`,
+      ].join("\n\n");
+    },
+  };
+}
+
+export function createReviewGenerator(config: ReviewGeneratorConfig = getReviewGeneratorConfig()): ReviewGenerator {
+  switch (config.provider) {
+    case "gemini":
+      return createGeminiGenerator(config);
+    case "openai":
+      return createOpenAiCompatibleGenerator(config);
+    case "fake":
+      return createFakeGenerator();
+  }
+}
@@ -1,182 +1,125 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import type {
-  Game,
-  ScoringPeriod,
-  PenaltyPeriod,
-  ThreeStar,
-  PlayerStats,
-  GoalieStats,
-} from "./nhl-types";
+import { getTeamConfig } from "./team";
+import { createReviewGenerator } from "./review-generator";
+import type { ReviewGenerator } from "./review-generator";
+import { checkReviewStyle, describeViolations, getStyleRules, repairReviewStyle } from "./style-rules";
+import type { StyleRule, StyleRuleId } from "./style-rules";
+import { DEFAULT_PERSONA, PERSONAS } from "./personas";
+import type { Persona } from "./personas";
+import { getConfiguredPromptTemplate } from "./prompt-templates";
+import type { PromptTemplate, PromptVersion } from "./prompt-templates";
+import type { GameContext } from "./game-context";
 
 export interface ReviewPrompt {
   systemInstruction: string;
   prompt: string;
 }
 
-export function buildReviewPrompt(
-  game: Game,
-  scoring: ScoringPeriod[],
-  penalties: PenaltyPeriod[],
-  threeStars: ThreeStar[],
-  leafsStats: { sog: number; powerPlay: string; pim: number } | null,
-  opponentStats: { sog: number; powerPlay: string; pim: number } | null,
-  leafsSkaters: PlayerStats[],
-  leafsGoalies: GoalieStats[],
-  opponentSkaters: PlayerStats[],
-  opponentGoalies: GoalieStats[],
-  playByPlayNarrative: string
-): ReviewPrompt {
-  const isLeafsHome = game.homeTeam.abbrev === "TOR";
-  const leafsScore = isLeafsHome ? game.homeTeam.score ?? 0 : game.awayTeam.score ?? 0;
-  const opponentScore = isLeafsHome ? game.awayTeam.score ?? 0 : game.homeTeam.score ?? 0;
-  const opponent = isLeafsHome
-    ? game.awayTeam.placeName.default
-    : game.homeTeam.placeName.default;
-  const didLose = leafsScore < opponentScore;
-  const wasOT = scoring.some((p) => p.periodDescriptor.periodType === "OT");
-  const wasSO = scoring.some((p) => p.periodDescriptor.periodType === "SO");
-
-  const scoringSummary = scoring
-    .flatMap((period) =>
-      period.goals.map((g) => {
-        const periodLabel =
-          period.periodDescriptor.periodType === "OT"
-            ? "OT"
-            : period.periodDescriptor.periodType === "SO"
-            ? "SO"
-            : `P${period.periodDescriptor.number}`;
-        const assists = g.assists.length === 0
-          ? "unassisted"
-          : g.assists.filter(Boolean).map((a) => `${a.firstName?.default ?? ""} ${a.lastName?.default ?? ""}`.trim() || "Unknown").join(", ");
-        const modifiers = [
-          g.strength !== "ev" ? g.strength.toUpperCase() : "",
-          g.goalModifier === "empty-net" ? "EN" : "",
-        ].filter(Boolean).join(", ");
-        const modStr = modifiers ? ` [${modifiers}]` : "";
-        const scorerName = `${g.firstName?.default ?? ""} ${g.lastName?.default ?? ""}`.trim() || "Unknown";
-        const goalCount = g.goalsToDate ? ` - season goal #${g.goalsToDate}` : "";
-        return `${periodLabel} ${g.timeInPeriod}: ${scorerName} (${g.teamAbbrev.default}, ${g.shotType})${modStr}${goalCount}. Assists: ${assists}`;
-      })
-    )
-    .join("\n");
-
-  const threeStarsSummary = threeStars
-    .map((s) => {
-      const name = s.name.default;
-      const stats =
-        s.position === "G"
-          ? `${((s.savePctg ?? 0) * 100).toFixed(1)}% save pct`
-          : `${s.goals ?? 0}G, ${s.assists ?? 0}A`;
-      return `${s.star}. ${name} (${s.teamAbbrev}) - ${stats}`;
-    })
-    .join("\n");
-
-  const penaltySummary = penalties
-    .flatMap((period) =>
-      period.penalties.map((p) => {
-        const periodLabel =
-          period.periodDescriptor.periodType === "OT"
-            ? "OT"
-            : `P${period.periodDescriptor.number}`;
-        const drawnByStr = p.drawnBy ? ` drawn by ${p.drawnBy.firstName.default} ${p.drawnBy.lastName.default}` : "";
-        const committedBy = p.committedByPlayer ? `${p.committedByPlayer.firstName.default} ${p.committedByPlayer.lastName.default}` : "Team";
-        return `${periodLabel} ${p.timeInPeriod}: ${committedBy} (${p.teamAbbrev.default}) - ${p.descKey} ${p.duration}min${drawnByStr}`;
-      })
-    )
-    .join("\n");
-
-  const formatSkaterLine = (s: PlayerStats) =>
-    `${s.name.default} (${s.position}): ${s.goals}G ${s.assists}A ${s.points}P, ${s.plusMinus >= 0 ? "+" : ""}${s.plusMinus}, ${s.sog} SOG, ${s.hits} hits, ${s.toi} TOI${s.faceoffWinningPctg > 0 ? `, ${(s.faceoffWinningPctg * 100).toFixed(0)}% FO` : ""}`;
-
-  const formatGoalieLine = (g: GoalieStats) =>
-    `${g.name.default}: ${g.saveShotsAgainst} saves (${(g.savePctg * 100).toFixed(1)}%), ${g.toi} TOI${g.decision ? `, ${g.decision}` : ""}`;
-
-  const leafsSkatersStr = leafsSkaters
-    .sort((a, b) => b.points - a.points || b.goals - a.goals || b.sog - a.sog)
-    .map(formatSkaterLine)
-    .join("\n");
-
-  const leafsGoaliesStr = leafsGoalies.map(formatGoalieLine).join("\n");
-
-  const opponentSkatersStr = opponentSkaters
-    .sort((a, b) => b.points - a.points || b.goals - a.goals || b.sog - a.sog)
-    .map(formatSkaterLine)
-    .join("\n");
-
-  const opponentGoaliesStr = opponentGoalies.map(formatGoalieLine).join("\n");
-
-  const systemInstruction = `You are a snarky, self-deprecating Toronto Maple Leafs fan writing a brief game recap. You've seen it all - decades of playoff disappointments, blown leads, and yet you keep coming back. Your main goal is to be funny, witty, and entertaining.
-
-STRICT RULE: Never mention days of the week, "tonight", "this evening", or any time references. Just talk about the game itself. Never mention the Raptors or Blue Jays. Never use emoji, em dashes, or semicolons. Don't use the word "masterclass". Don't talk about parades.
-
-You will be given detailed game data including player stats, penalties, and period-by-period stats from the Leafs' most recent game. Write a 2-3 paragraph game recap. Be snarky and self-deprecating if they lost (classic Leafs fashion). If they won, be cautiously optimistic but remind everyone not to get too excited (it's the Leafs after all). Reference specific players, moments, and stats from the data. Use the period-by-period stats to identify which team dominated each period. Use player stats to highlight standout performances, rough nights, and interesting details. Keep it punchy and entertaining, avoid complete despair and keep it playful and light hearted. No headers or titles, just the recap text. Penalties and fights should be highlighted.`;
-
-  const prompt = `GAME DATA:
-- Date: ${game.gameDate}
-- Result: Leafs ${didLose ? "LOST" : "WON"} ${leafsScore}-${opponentScore} ${isLeafsHome ? "at home vs" : "on the road against"} ${opponent}
-${wasOT ? "- Game went to overtime" : ""}${wasSO ? "- Decided in a shootout" : ""}
-
-GOALS:
-${scoringSummary || "No goals"}
-
-PENALTIES:
-${penaltySummary || "None"}
-
-THREE STARS:
-${threeStarsSummary || "Not available"}
-
-${leafsStats ? `LEAFS TEAM STATS: ${leafsStats.sog} shots, ${leafsStats.powerPlay} power play, ${leafsStats.pim} PIM` : ""}
-${opponentStats ? `${opponent.toUpperCase()} TEAM STATS: ${opponentStats.sog} shots, ${opponentStats.powerPlay} power play, ${opponentStats.pim} PIM` : ""}
+export interface ReviewOptions {
+  persona?: Persona;
+  // Defaults to PROMPT_VERSION, or the current template
+  template?: PromptTemplate;
+}
 
-LEAFS PLAYER STATS:
-${leafsGoaliesStr || "Not available"}
-${leafsSkatersStr || "Not available"}
+export function buildReviewPrompt(context: GameContext, options: ReviewOptions = {}): ReviewPrompt {
+  const team = getTeamConfig();
+  const persona = options.persona ?? PERSONAS[DEFAULT_PERSONA];
+  const template = options.template ?? getConfiguredPromptTemplate();
+  return {
+    systemInstruction: template.systemInstruction(context, persona, team),
+    prompt: template.prompt(context, team),
+  };
+}
 
-${opponent.toUpperCase()} PLAYER STATS:
-${opponentGoaliesStr || "Not available"}
-${opponentSkatersStr || "Not available"}
+export interface GeneratedReview {
+  // Null when generation failed or the house rules still weren't met
+  review: string | null;
+  // Every rule the model broke along the way, even ones that were repaired
+  styleRulesHit: StyleRuleId[];
+  rewrites: number;
+  promptVersion: PromptVersion;
+}
 
-${playByPlayNarrative}`;
+// How many times the model gets asked to fix its own rule breaks
+const STYLE_REWRITE_BUDGET = 2;
 
-  return { systemInstruction, prompt };
+export async function generateReview(
+  context: GameContext,
+  options: ReviewOptions & { generator?: ReviewGenerator } = {}
+): Promise<GeneratedReview> {
+  const persona = options.persona ?? PERSONAS[DEFAULT_PERSONA];
+  const template = options.template ?? getConfiguredPromptTemplate();
+  const result: GeneratedReview = { review: null, styleRulesHit: [], rewrites: 0, promptVersion: template.version };
+
+  const backend = resolveReviewGenerator(options.generator);
+  if (!backend) return result;
+
+  const reviewPrompt = buildReviewPrompt(context, { persona, template });
+  const rules = [...getStyleRules(), ...(persona.styleRules ?? [])];
+  const { text, styleRulesHit, rewrites } = await generateWithStyleRules(backend, reviewPrompt, rules, "recap");
+  return { ...result, review: text, styleRulesHit, rewrites };
 }
 
-export async function generateReview(
-  game: Game,
-  scoring: ScoringPeriod[],
-  penalties: PenaltyPeriod[],
-  threeStars: ThreeStar[],
-  leafsStats: { sog: number; powerPlay: string; pim: number } | null,
-  opponentStats: { sog: number; powerPlay: string; pim: number } | null,
-  leafsSkaters: PlayerStats[],
-  leafsGoalies: GoalieStats[],
-  opponentSkaters: PlayerStats[],
-  opponentGoalies: GoalieStats[],
-  playByPlayNarrative: string
-): Promise<string | null> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    console.error("GEMINI_API_KEY not set");
+// The backend comes from REVIEW_PROVIDER/REVIEW_MODEL unless the caller brings
+// one. Null when it can't be set up, the caller skips generating instead.
+export function resolveReviewGenerator(generator?: ReviewGenerator): ReviewGenerator | null {
+  try {
+    return generator ?? createReviewGenerator();
+  } catch (error) {
+    console.error("Review generator unavailable:", error);
     return null;
   }
+}
 
-  const { systemInstruction, prompt } = buildReviewPrompt(
-    game, scoring, penalties, threeStars, leafsStats, opponentStats,
-    leafsSkaters, leafsGoalies, opponentSkaters, opponentGoalies,
-    playByPlayNarrative
-  );
-
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({
-    model: "gemini-3-flash-preview",
-    systemInstruction,
-  });
+export interface StyledText {
+  text: string | null;
+  styleRulesHit: StyleRuleId[];
+  rewrites: number;
+}
 
+// Generates, then repairs what it can and asks the model to rewrite the rest
+// until the house rules are met or the rewrite budget runs out
+export async function generateWithStyleRules(
+  backend: ReviewGenerator,
+  reviewPrompt: ReviewPrompt,
+  rules: StyleRule[],
+  noun: "recap" | "preview" | "intermission report"
+): Promise<StyledText> {
+  const label = noun === "recap" ? "Review" : noun[0].toUpperCase() + noun.slice(1);
+  const hit = new Set<StyleRuleId>();
+  let rewrites = 0;
+
+  let text: string;
   try {
-    const result = await model.generateContent(prompt);
-    return result.response.text();
+    text = await backend.generate(reviewPrompt);
   } catch (error) {
-    console.error("Gemini error:", error);
-    return null;
+    console.error(`${label} generation failed (${backend.name}):`, error);
+    return { text: null, styleRulesHit: [], rewrites };
+  }
+
+  for (;;) {
+    let violations = checkReviewStyle(text, rules);
+    violations.forEach((v) => hit.add(v.rule));
+    if (violations.length > 0) {
+      text = repairReviewStyle(text, violations, rules);
+      violations = checkReviewStyle(text, rules);
+    }
+    if (violations.length === 0) {
+      return { text, styleRulesHit: Array.from(hit), rewrites };
+    }
+    if (rewrites >= STYLE_REWRITE_BUDGET) {
+      console.error(`${label} still breaks style rules after ${rewrites} rewrites:\n${describeViolations(violations)}`);
+      return { text: null, styleRulesHit: Array.from(hit), rewrites };
+    }
+
+    rewrites++;
+    try {
+      text = await backend.generate({
+        systemInstruction: reviewPrompt.systemInstruction,
+        prompt: `${reviewPrompt.prompt}\n\nYOUR PREVIOUS ${noun.toUpperCase()}:\n${text}\n\nIt breaks the rules:\n${describeViolations(violations)}\n\nRewrite only those passages and return the full ${noun}.`,
+      });
+    } catch (error) {
+      console.error(`${label} rewrite failed (${backend.name}):`, error);
+      return { text: null, styleRulesHit: Array.from(hit), rewrites };
+    }
   }
 }
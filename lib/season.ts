@@ -0,0 +1,152 @@
+import type { Game, ScheduleResponse } from "./nhl-types";
+import { getTeamConfig } from "./team";
+import type { TeamConfig } from "./team";
+import { isFinal } from "./game-state";
+import { nhlApi } from "./nhl-api";
+import type { NhlApiClient } from "./nhl-api";
+
+export type GameResult = "W" | "L" | "OTL";
+export type DecidedIn = "REG" | "OT" | "SO";
+export type SeasonPhase = "preseason" | "regular" | "playoffs" | "other";
+
+export interface SeasonGame {
+  game: Game;
+  phase: SeasonPhase;
+  isHome: boolean;
+  opponentAbbrev: string;
+  opponent: string;
+  isFinal: boolean;
+  teamScore: number | null;
+  opponentScore: number | null;
+  result: GameResult | null;
+  decidedIn: DecidedIn | null;
+}
+
+export interface TeamRecord {
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  otLosses: number;
+  points: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifferential: number;
+}
+
+export interface Season {
+  games: SeasonGame[];
+  preseason: TeamRecord;
+  regular: TeamRecord;
+  playoffs: TeamRecord;
+}
+
+// gameType values used by the NHL API
+const PHASES: Record<number, SeasonPhase> = {
+  1: "preseason",
+  2: "regular",
+  3: "playoffs",
+};
+
+export function getSeasonPhase(game: Game): SeasonPhase {
+  return PHASES[game.gameType] ?? "other";
+}
+
+// The season a date falls in, as inclusive "YYYY-MM-DD" bounds. Seasons are
+// split on July 1, after the Cup is handed out and before preseason starts.
+export function getSeasonDates(gameDate: string): { start: string; end: string } {
+  const year = parseInt(gameDate.slice(0, 4), 10);
+  const startYear = gameDate.slice(5) >= "07-01" ? year : year - 1;
+  return { start: `${startYear}-07-01`, end: `${startYear + 1}-06-30` };
+}
+
+function getDecidedIn(game: Game): DecidedIn {
+  const last = game.gameOutcome?.lastPeriodType;
+  return last === "OT" || last === "SO" ? last : "REG";
+}
+
+export function toSeasonGame(game: Game, team: Pick<TeamConfig, "abbrev"> = getTeamConfig()): SeasonGame {
+  const isHome = game.homeTeam.abbrev === team.abbrev;
+  const us = isHome ? game.homeTeam : game.awayTeam;
+  const them = isHome ? game.awayTeam : game.homeTeam;
+  const phase = getSeasonPhase(game);
+  const final = isFinal(game);
+
+  let result: GameResult | null = null;
+  let decidedIn: DecidedIn | null = null;
+  if (final) {
+    decidedIn = getDecidedIn(game);
+    const won = (us.score ?? 0) > (them.score ?? 0);
+    // There's no loser point in the playoffs, an OT loss is just a loss
+    result = won ? "W" : decidedIn !== "REG" && phase !== "playoffs" ? "OTL" : "L";
+  }
+
+  return {
+    game,
+    phase,
+    isHome,
+    opponentAbbrev: them.abbrev,
+    opponent: them.placeName.default,
+    isFinal: final,
+    teamScore: final ? us.score ?? 0 : null,
+    opponentScore: final ? them.score ?? 0 : null,
+    result,
+    decidedIn,
+  };
+}
+
+export function buildRecord(games: SeasonGame[]): TeamRecord {
+  const record: TeamRecord = {
+    gamesPlayed: 0,
+    wins: 0,
+    losses: 0,
+    otLosses: 0,
+    points: 0,
+    goalsFor: 0,
+    goalsAgainst: 0,
+    goalDifferential: 0,
+  };
+
+  for (const g of games) {
+    if (!g.result) continue;
+    record.gamesPlayed++;
+    if (g.result === "W") record.wins++;
+    else if (g.result === "OTL") record.otLosses++;
+    else record.losses++;
+    record.goalsFor += g.teamScore ?? 0;
+    record.goalsAgainst += g.opponentScore ?? 0;
+  }
+
+  record.points = record.wins * 2 + record.otLosses;
+  record.goalDifferential = record.goalsFor - record.goalsAgainst;
+  return record;
+}
+
+export function buildSeason(schedule: ScheduleResponse, team: Pick<TeamConfig, "abbrev"> = getTeamConfig()): Season {
+  const games = schedule.games
+    .map((g) => toSeasonGame(g, team))
+    .sort((a, b) => a.game.startTimeUTC.localeCompare(b.game.startTimeUTC) || a.game.id - b.game.id);
+
+  const inPhase = (phase: SeasonPhase) => games.filter((g) => g.phase === phase);
+
+  return {
+    games,
+    preseason: buildRecord(inPhase("preseason")),
+    regular: buildRecord(inPhase("regular")),
+    playoffs: buildRecord(inPhase("playoffs")),
+  };
+}
+
+export async function getSeason(client: NhlApiClient = nhlApi): Promise<Season | null> {
+  try {
+    const { data } = await client.getSchedule(getTeamConfig().abbrev);
+    return buildSeason(data);
+  } catch (error) {
+    console.error("Failed to fetch season schedule:", error);
+    return null;
+  }
+}
+
+// "W-L-OTL", the way the standings print it
+export function formatRecord(record: TeamRecord): string {
+  return `${record.wins}-${record.losses}-${record.otLosses}`;
+}
@@ -0,0 +1,107 @@
+// Possession proxies from shot attempts. Corsi counts every attempt (goals,
+// shots on goal, misses, blocks), Fenwick drops the blocked ones.
+
+import type { GameTimeline, ShotAttempt, TeamSide } from "./play-by-play";
+
+export interface ShotAttemptCounts {
+  corsi: number;
+  fenwick: number;
+  shotsOnGoal: number;
+  missed: number;
+  blocked: number;
+  goals: number;
+}
+
+export interface TeamShotAttempts {
+  all: ShotAttemptCounts;
+  fiveOnFive: ShotAttemptCounts;
+}
+
+export interface ShotAttemptSplit {
+  label: string;
+  home: TeamShotAttempts;
+  away: TeamShotAttempts;
+}
+
+export interface ShotAttemptStats {
+  game: ShotAttemptSplit;
+  periods: ShotAttemptSplit[];
+}
+
+const FIVE_ON_FIVE = "1551";
+
+export const isFiveOnFive = (shot: Pick<ShotAttempt, "situationCode">) => shot.situationCode === FIVE_ON_FIVE;
+
+function blankCounts(): ShotAttemptCounts {
+  return { corsi: 0, fenwick: 0, shotsOnGoal: 0, missed: 0, blocked: 0, goals: 0 };
+}
+
+function blankSplit(label: string): ShotAttemptSplit {
+  return {
+    label,
+    home: { all: blankCounts(), fiveOnFive: blankCounts() },
+    away: { all: blankCounts(), fiveOnFive: blankCounts() },
+  };
+}
+
+function count(counts: ShotAttemptCounts, shot: ShotAttempt) {
+  counts.corsi++;
+  switch (shot.kind) {
+    case "goal":
+      counts.goals++;
+      counts.shotsOnGoal++;
+      counts.fenwick++;
+      break;
+    case "shot-on-goal":
+      counts.shotsOnGoal++;
+      counts.fenwick++;
+      break;
+    case "missed-shot":
+      counts.missed++;
+      counts.fenwick++;
+      break;
+    case "blocked-shot":
+      counts.blocked++;
+      break;
+  }
+}
+
+export function computeShotAttempts(timeline: GameTimeline): ShotAttemptStats {
+  const game = blankSplit("Game");
+  const periods = new Map<string, ShotAttemptSplit>();
+
+  for (const shot of timeline.shots) {
+    if (!periods.has(shot.period)) periods.set(shot.period, blankSplit(shot.period));
+    for (const split of [game, periods.get(shot.period)!]) {
+      const team = split[shot.side];
+      count(team.all, shot);
+      if (isFiveOnFive(shot)) count(team.fiveOnFive, shot);
+    }
+  }
+
+  return { game, periods: Array.from(periods.values()) };
+}
+
+// Share of attempts for one side, as a percentage (50 when nobody shot)
+export function attemptShare(split: ShotAttemptSplit, side: TeamSide, metric: "corsi" | "fenwick", fiveOnFiveOnly = false): number {
+  const other: TeamSide = side === "home" ? "away" : "home";
+  const pick = (team: TeamShotAttempts) => (fiveOnFiveOnly ? team.fiveOnFive : team.all)[metric];
+  const mine = pick(split[side]);
+  const total = mine + pick(split[other]);
+  return total === 0 ? 50 : (mine / total) * 100;
+}
+
+export function renderShotAttempts(stats: ShotAttemptStats, timeline: GameTimeline): string {
+  const aAbbrev = timeline.away.abbrev;
+  const hAbbrev = timeline.home.abbrev;
+  const line = (split: ShotAttemptSplit) => {
+    const { home, away } = split;
+    return `${split.label}: ${aAbbrev} ${away.all.corsi}CF/${away.all.fenwick}FF/${away.all.missed}MISS/${away.all.blocked}BLKD (5v5 ${away.fiveOnFive.corsi}CF/${away.fiveOnFive.fenwick}FF) | ${hAbbrev} ${home.all.corsi}CF/${home.all.fenwick}FF/${home.all.missed}MISS/${home.all.blocked}BLKD (5v5 ${home.fiveOnFive.corsi}CF/${home.fiveOnFive.fenwick}FF)`;
+  };
+  const share = attemptShare(stats.game, "home", "corsi", true);
+  return [
+    ...stats.periods.map(line),
+    line(stats.game),
+    `5v5 Corsi share: ${aAbbrev} ${(100 - share).toFixed(1)}% | ${hAbbrev} ${share.toFixed(1)}%`,
+  ].join("\n");
+}
@@ -0,0 +1,138 @@
+// Special teams from situationCode transitions rather than the penalty list, so
+// coincidental minors, offsetting majors and misconducts don't count as power
+// plays. Everything is reported from one team's point of view.
+
+import type { GameTimeline, TeamSide } from "./play-by-play";
+
+export interface Situation {
+  teamSkaters: number;
+  opponentSkaters: number;
+  teamGoalieIn: boolean;
+  opponentGoalieIn: boolean;
+}
+
+export interface SpecialTeamsStats {
+  ppOpportunities: number;
+  ppGoals: number;
+  ppSeconds: number;
+  shGoals: number;
+  timesShorthanded: number;
+  pkSeconds: number;
+  ppGoalsAgainst: number;
+  shGoalsAgainst: number;
+}
+
+export interface SpecialTeams {
+  team: SpecialTeamsStats;
+  opponent: SpecialTeamsStats;
+}
+
+// situationCode digits: awayGoalie(1=in,0=pulled), awaySkaters, homeSkaters, homeGoalie.
+// Skater counts include an extra attacker when the goalie is pulled.
+export function decodeSituation(code: string | undefined, side: TeamSide): Situation {
+  if (!code || code.length !== 4) {
+    return { teamSkaters: 5, opponentSkaters: 5, teamGoalieIn: true, opponentGoalieIn: true };
+  }
+  const away = { goalieIn: code[0] !== "0", skaters: parseInt(code[1], 10) };
+  const home = { goalieIn: code[3] !== "0", skaters: parseInt(code[2], 10) };
+  const us = side === "home" ? home : away;
+  const them = side === "home" ? away : home;
+  return {
+    teamSkaters: us.skaters,
+    opponentSkaters: them.skaters,
+    teamGoalieIn: us.goalieIn,
+    opponentGoalieIn: them.goalieIn,
+  };
+}
+
+// Skaters a team would have with its goalie in, so an extra attacker isn't mistaken for a power play
+const penaltyStrength = (skaters: number, goalieIn: boolean) => skaters - (goalieIn ? 0 : 1);
+
+export function isPowerPlay(situation: Situation): boolean {
+  return penaltyStrength(situation.teamSkaters, situation.teamGoalieIn)
+    > penaltyStrength(situation.opponentSkaters, situation.opponentGoalieIn);
+}
+
+export function isShorthanded(situation: Situation): boolean {
+  return penaltyStrength(situation.teamSkaters, situation.teamGoalieIn)
+    < penaltyStrength(situation.opponentSkaters, situation.opponentGoalieIn);
+}
+
+// "5v4" with the given side's skaters first
+export function describeStrength(code: string | undefined, side: TeamSide): string {
+  const s = decodeSituation(code, side);
+  return `${s.teamSkaters}v${s.opponentSkaters}`;
+}
+
+function blankStats(): SpecialTeamsStats {
+  return {
+    ppOpportunities: 0,
+    ppGoals: 0,
+    ppSeconds: 0,
+    shGoals: 0,
+    timesShorthanded: 0,
+    pkSeconds: 0,
+    ppGoalsAgainst: 0,
+    shGoalsAgainst: 0,
+  };
+}
+
+function statsForSide(timeline: GameTimeline, side: TeamSide): SpecialTeamsStats {
+  const stats = blankStats();
+  let wasPowerPlay = false;
+  let wasShorthanded = false;
+
+  for (const segment of timeline.situations) {
+    const situation = decodeSituation(segment.situationCode, side);
+    const pp = isPowerPlay(situation);
+    const sh = isShorthanded(situation);
+    const seconds = segment.endSeconds - segment.startSeconds;
+
+    // 5v4 into 5v3 is still the same power play, only entering one counts
+    if (pp && !wasPowerPlay) stats.ppOpportunities++;
+    if (sh && !wasShorthanded) stats.timesShorthanded++;
+    if (pp) stats.ppSeconds += seconds;
+    if (sh) stats.pkSeconds += seconds;
+
+    wasPowerPlay = pp;
+    wasShorthanded = sh;
+  }
+
+  for (const ev of timeline.events) {
+    if (ev.type !== "goal" || ev.period === "SO") continue;
+    const situation = decodeSituation(ev.situationCode, side);
+    const ours = ev.side === side;
+    if (isPowerPlay(situation)) {
+      if (ours) stats.ppGoals++;
+      else stats.shGoalsAgainst++;
+    } else if (isShorthanded(situation)) {
+      if (ours) stats.shGoals++;
+      else stats.ppGoalsAgainst++;
+    }
+  }
+
+  return stats;
+}
+
+export function computeSpecialTeams(timeline: GameTimeline, teamAbbrev: string): SpecialTeams {
+  const side: TeamSide = timeline.home.abbrev === teamAbbrev ? "home" : "away";
+  const otherSide: TeamSide = side === "home" ? "away" : "home";
+  return {
+    team: statsForSide(timeline, side),
+    opponent: statsForSide(timeline, otherSide),
+  };
+}
+
+export function formatPowerPlay(stats: SpecialTeamsStats): string {
+  return `${stats.ppGoals}/${stats.ppOpportunities}`;
+}
+
+export function formatSeconds(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = Math.round(seconds % 60);
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
+
+export function renderSpecialTeams(stats: SpecialTeamsStats): string {
+  return `${formatPowerPlay(stats)} power play (${formatSeconds(stats.ppSeconds)} PP time), shorthanded ${stats.timesShorthanded} times (${formatSeconds(stats.pkSeconds)} PK time), ${stats.shGoals} SH goals for, ${stats.ppGoalsAgainst} PP goals against`;
+}
@@ -0,0 +1,134 @@
+// The house rules from the review system prompt, as checks that can be run on
+// whatever the model hands back. Punctuation and emoji can be fixed in place,
+// anything about content needs the model to rewrite the passage.
+
+import type { TeamConfig } from "./team";
+import { getTeamConfig } from "./team";
+
+export type StyleRuleId =
+  | "time-reference"
+  | "emoji"
+  | "em-dash"
+  | "semicolon"
+  | "masterclass"
+  | "parade"
+  | "other-local-team"
+  // Extra rules that come with a persona
+  | "persona-negativity"
+  | "persona-cliche"
+  | "persona-jargon";
+
+export interface StyleRule {
+  id: StyleRuleId;
+  description: string;
+  pattern: RegExp;
+  // Mechanical fix, rules without one have to go back to the model
+  repair?: (text: string) => string;
+}
+
+export interface StyleViolation {
+  rule: StyleRuleId;
+  description: string;
+  match: string;
+  // The sentence the match is in, so a rewrite request can point at it
+  passage: string;
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function getStyleRules(team: TeamConfig = getTeamConfig()): StyleRule[] {
+  const rules: StyleRule[] = [
+    {
+      id: "time-reference",
+      description: "mentions a day of the week or a time like \"tonight\"",
+      pattern: /\b(monday|tuesday|wednesday|thursday|friday|saturday|sunday|tonight|tonight's|this evening|last night)\b/gi,
+    },
+    {
+      id: "emoji",
+      description: "uses emoji",
+      pattern: /\p{Extended_Pictographic}️?/gu,
+      repair: (text) => text.replace(/\s*\p{Extended_Pictographic}️?/gu, ""),
+    },
+    {
+      id: "em-dash",
+      description: "uses an em dash",
+      // A spaced en dash is an em dash in disguise, score ranges like 3–2 are fine
+      pattern: /—|\s–\s/g,
+      repair: (text) => text.replace(/\s*—\s*|\s–\s/g, ", "),
+    },
+    {
+      id: "semicolon",
+      description: "uses a semicolon",
+      pattern: /;/g,
+      repair: (text) => text.replace(/\s*;\s*(\S)/g, (_, next: string) => `. ${next.toUpperCase()}`),
+    },
+    {
+      id: "masterclass",
+      description: "uses the word \"masterclass\"",
+      pattern: /\bmaster[\s-]?class\b/gi,
+    },
+    {
+      id: "parade",
+      description: "talks about parades",
+      pattern: /\bparades?\b/gi,
+    },
+  ];
+
+  if (team.otherLocalTeams.length > 0) {
+    rules.push({
+      id: "other-local-team",
+      description: `mentions the ${team.otherLocalTeams.join(" or ")}`,
+      pattern: new RegExp(`\\b(${team.otherLocalTeams.map(escapeRegExp).join("|")})\\b`, "gi"),
+    });
+  }
+
+  return rules;
+}
+
+// The same rules as the prompts spell them out. Every prompt version shares this
+// line, so rewording it changes what old versions send too. Recaps add their own
+// aside after the time rule.
+export function houseRulesInstruction(team: TeamConfig = getTeamConfig(), afterTimeRule = ""): string {
+  const otherTeams = team.otherLocalTeams.length > 0
+    ? ` Never mention the ${team.otherLocalTeams.join(" or ")}.`
+    : "";
+
+  return `STRICT RULE: Never mention days of the week, "tonight", "this evening", or any time references.${afterTimeRule}${otherTeams} Never use emoji, em dashes, or semicolons. Don't use the word "masterclass". Don't talk about parades.`;
+}
+
+function passageAround(text: string, index: number): string {
+  const start = Math.max(text.lastIndexOf(".", index), text.lastIndexOf("\n", index)) + 1;
+  const ends = [".", "!", "?", "\n"].map((c) => text.indexOf(c, index)).filter((i) => i !== -1);
+  const end = ends.length > 0 ? Math.min(...ends) + 1 : text.length;
+  return text.slice(start, end).trim();
+}
+
+export function checkReviewStyle(text: string, rules: StyleRule[] = getStyleRules()): StyleViolation[] {
+  const violations: StyleViolation[] = [];
+  for (const rule of rules) {
+    for (const m of text.matchAll(rule.pattern)) {
+      violations.push({
+        rule: rule.id,
+        description: rule.description,
+        match: m[0],
+        passage: passageAround(text, m.index ?? 0),
+      });
+    }
+  }
+  return violations;
+}
+
+// Applies every mechanical fix for the rules that were broken
+export function repairReviewStyle(text: string, violations: StyleViolation[], rules: StyleRule[] = getStyleRules()): string {
+  const broken = new Set(violations.map((v) => v.rule));
+  return rules
+    .filter((rule) => broken.has(rule.id) && rule.repair)
+    .reduce((fixed, rule) => rule.repair!(fixed), text)
+    .replace(/ {2,}/g, " ");
+}
+
+export function describeViolations(violations: StyleViolation[]): string {
+  return violations
+    .map((v) => `- It ${v.description}: "${v.passage}"`)
+    .join("\n");
+}
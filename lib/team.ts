@@ -0,0 +1,104 @@
+// The club this site follows. Everything team-specific (schedule URL, home/away
+// perspective, prompt persona, UI copy) reads from here, so standing up a
+// "did X lose" site for another club is a new entry plus TEAM_ABBREV.
+
+export interface TeamConfig {
+  abbrev: string;
+  fullName: string;
+  shortName: string;
+  arena: {
+    name: string;
+    streetAddress: string;
+    locality: string;
+    region: string;
+    postalCode: string;
+    country: string;
+  };
+  colors: {
+    primary: string;
+    secondary: string;
+  };
+  // Opening of the recap system prompt, in the fan's voice
+  fanPersona: string;
+  // How the recap should treat a loss and a win, in the fan's voice
+  lossAttitude: string;
+  winAttitude: string;
+  // Other local teams the recap must never drag into it
+  otherLocalTeams: string[];
+  site: {
+    name: string;
+    url: string;
+    title: string;
+    description: string;
+    shortDescription: string;
+    keywords: string[];
+    locale: string;
+    lossTagline: string;
+    winTagline: string;
+    archiveLossTagline: string;
+    archiveWinTagline: string;
+  };
+}
+
+const TEAMS: Record<string, TeamConfig> = {
+  TOR: {
+    abbrev: "TOR",
+    fullName: "Toronto Maple Leafs",
+    shortName: "Leafs",
+    arena: {
+      name: "Scotiabank Arena",
+      streetAddress: "40 Bay Street",
+      locality: "Toronto",
+      region: "ON",
+      postalCode: "M5J 2X2",
+      country: "CA",
+    },
+    colors: {
+      primary: "#00205B",
+      secondary: "#FFFFFF",
+    },
+    fanPersona:
+      "You are a snarky, self-deprecating Toronto Maple Leafs fan writing a brief game recap. You've seen it all - decades of playoff disappointments, blown leads, and yet you keep coming back. Your main goal is to be funny, witty, and entertaining.",
+    lossAttitude: "Be snarky and self-deprecating if they lost (classic Leafs fashion).",
+    winAttitude: "If they won, be cautiously optimistic but remind everyone not to get too excited (it's the Leafs after all).",
+    otherLocalTeams: ["Raptors", "Blue Jays"],
+    site: {
+      name: "Did the Leafs Lose?",
+      url: "https://www.didtheleafslose.com",
+      title: "Did the Leafs Lose? | Toronto Maple Leafs Score & Results",
+      description:
+        "Check if the Toronto Maple Leafs won or lost their latest NHL game. Get instant Leafs scores, game results, and updates for the current season.",
+      shortDescription: "Check if the Toronto Maple Leafs won or lost their latest NHL game.",
+      keywords: [
+        "Toronto Maple Leafs",
+        "Leafs score",
+        "Maple Leafs score",
+        "did the Leafs win",
+        "did the Leafs lose",
+        "Leafs game result",
+        "Toronto Maple Leafs score today",
+        "Leafs latest game",
+        "NHL scores",
+        "Maple Leafs results",
+      ],
+      locale: "en_CA",
+      lossTagline: "They lost. Do you feel better about yourself?",
+      winTagline: "They won, you hater",
+      archiveLossTagline: "They lost. Classic.",
+      archiveWinTagline: "They won this one.",
+    },
+  },
+};
+
+export function getTeamConfig(): TeamConfig {
+  const abbrev = (process.env.TEAM_ABBREV ?? "TOR").toUpperCase();
+  const team = TEAMS[abbrev];
+  if (!team) {
+    throw new Error(`No team config for "${abbrev}"`);
+  }
+  return team;
+}
+
+export function teamLogoUrl(abbrev: string): string {
+  return `https://assets.nhle.com/logos/nhl/svg/${abbrev}_light.svg`;
+}
@@ -1,21 +1,453 @@
 import { getStore } from "@netlify/blobs";
 import type { Config } from "@netlify/functions";
-import type { StoredGame, ScoringPeriod } from "../../lib/nhl-types";
-import { getScheduleData, getGameData } from "../../lib/nhl-api";
+import type { Game, IntermissionReport, StoredGame, StoredPreview, StoredRecap } from "../../lib/nhl-types";
+import { createNhlApiClient, getGame, getScheduleData } from "../../lib/nhl-api";
+import { loadGameContext } from "../../lib/game-context";
+import type { GameContext } from "../../lib/game-context";
 import { generateReview } from "../../lib/review";
+import { buildFallbackReview } from "../../lib/fallback-review";
+import { factCheckReview } from "../../lib/fact-check";
+import { DEFAULT_PERSONA, getConfiguredPersonas } from "../../lib/personas";
+import type { Persona, PersonaId } from "../../lib/personas";
+import { generatePreview, getPreviewConfig, isInPreviewWindow, loadPreviewContext } from "../../lib/preview";
+import type { PreviewConfig } from "../../lib/preview";
+import {
+  buildIntermissionContext,
+  generateIntermissionReport,
+  getEndedPeriods,
+  getIntermissionPeriod,
+} from "../../lib/intermission";
+import {
+  getRetryConfig,
+  markPublished,
+  newProcessingState,
+  nextRetry,
+  pruneProcessingStates,
+  recordFailure,
+  settleExhausted,
+  startAttempt,
+} from "../../lib/processing";
+import type { GameProcessingState, ProcessingStates, RetryConfig } from "../../lib/processing";
+import type { NhlApiClient } from "../../lib/nhl-api";
+import { getFixtureMode } from "../../lib/fixtures";
+import { isExhibition } from "../../lib/game-state";
 
 const BUILD_HOOK_URL =
   "https://api.netlify.com/build_hooks/696d468b71a04ae195f79a56";
 const GAME_STATE_STORE = "game-state";
 const REVIEWS_STORE = "game-reviews";
+const PREVIEWS_STORE = "game-previews";
+const INTERMISSIONS_STORE = "game-intermissions";
+// A preview is nice to have, so a failing model gets a few tries per game rather than one a minute
+const PREVIEW_ATTEMPTS = 3;
+// Same for intermission reports, per period
+const INTERMISSION_ATTEMPTS = 3;
+
+type Store = ReturnType<typeof getStore>;
+
+// Keyed by start time, the same thing nextGameTime tracks
+interface PreviewState {
+  startTimeUTC: string;
+  attempts: number;
+  done: boolean;
+}
+
+interface IntermissionState {
+  gameId: number;
+  period: number;
+  attempts: number;
+}
+
+// The latest published game and which of the other personas have had their one
+// try at it. Each is marked before it runs, so a run that times out doesn't loop.
+interface ExtraRecapState {
+  gameId: number;
+  tried: PersonaId[];
+}
+
+// Same as getAllGameReviews, but through the store this function already has
+// rather than the site's build-time credentials
+async function readArchive(store: Store): Promise<StoredGame[]> {
+  try {
+    const { blobs } = await store.list();
+    const games = await Promise.all(blobs.map((blob) => store.get(blob.key, { type: "json" }) as Promise<StoredGame | null>));
+    return games.filter((g): g is StoredGame => g !== null);
+  } catch (error) {
+    console.error("Could not read the review archive:", error);
+    return [];
+  }
+}
+
+// Recaps and previews want the archive for their history. It's every stored game,
+// so a run reads it once, and only if something actually gets generated.
+type ArchiveLoader = () => Promise<StoredGame[]>;
+
+function createArchiveLoader(store: Store): ArchiveLoader {
+  let archive: Promise<StoredGame[]> | null = null;
+  return () => (archive ??= readArchive(store));
+}
+
+// Writes the next game's preview once it's inside the window. Resolves true
+// when a new preview was stored and the site needs a rebuild.
+async function writePreviewIfDue(stateStore: Store, loadArchive: ArchiveLoader, api: NhlApiClient, nextGameTime: string): Promise<boolean> {
+  let config: PreviewConfig;
+  try {
+    config = getPreviewConfig();
+  } catch (error) {
+    console.error("Previews disabled:", error);
+    return false;
+  }
+  if (!isInPreviewWindow({ startTimeUTC: nextGameTime }, Date.now(), config)) {
+    return false;
+  }
+
+  const saved = (await stateStore.get("previewState", { type: "json" })) as PreviewState | null;
+  const state: PreviewState = saved?.startTimeUTC === nextGameTime ? saved : { startTimeUTC: nextGameTime, attempts: 0, done: false };
+  if (state.done || state.attempts >= PREVIEW_ATTEMPTS) {
+    return false;
+  }
+
+  // A stale nextGameTime gets fixed by the next run that polls the schedule
+  const schedule = await getScheduleData(api);
+  const game = schedule?.nextUpcoming;
+  if (!game || game.startTimeUTC !== nextGameTime) {
+    return false;
+  }
+  if (isExhibition(game)) {
+    await stateStore.setJSON("previewState", { ...state, done: true });
+    return false;
+  }
+
+  const previewsStore = getStore({ name: PREVIEWS_STORE, consistency: "strong" });
+  if (await previewsStore.get(String(game.id), { type: "json" })) {
+    await stateStore.setJSON("previewState", { ...state, done: true });
+    return false;
+  }
+
+  const context = await loadPreviewContext(game, api, { archive: await loadArchive() });
+  const { preview, styleRulesHit } = await generatePreview(context);
+  if (!preview) {
+    console.warn(`No preview for game ${game.id} (attempt ${state.attempts + 1} of ${PREVIEW_ATTEMPTS})`);
+    await stateStore.setJSON("previewState", { ...state, attempts: state.attempts + 1 });
+    return false;
+  }
+
+  const storedPreview: StoredPreview = {
+    gameId: game.id,
+    gameDate: game.gameDate,
+    startTimeUTC: game.startTimeUTC,
+    opponent: context.opponent,
+    opponentAbbrev: context.opponentAbbrev,
+    isLeafsHome: context.isLeafsHome,
+    preview,
+    persona: DEFAULT_PERSONA,
+    generatedAt: new Date().toISOString(),
+    styleRulesHit: styleRulesHit.length > 0 ? styleRulesHit : undefined,
+    history: context.history ?? undefined,
+  };
+  await previewsStore.setJSON(String(game.id), storedPreview);
+  await stateStore.setJSON("previewState", { ...state, attempts: state.attempts + 1, done: true });
+  console.log(`Preview written for game ${game.id}`);
+  return true;
+}
+
+async function readIntermissions(store: Store, gameId: number): Promise<IntermissionReport[]> {
+  return ((await store.get(String(gameId), { type: "json" })) as IntermissionReport[] | null) ?? [];
+}
+
+// Writes a report for the period that just ended while the game is between
+// periods. The landing is the cheap check, the play-by-play only gets fetched
+// once it says we're in an intermission nobody has written up yet.
+async function writeIntermissionIfDue(stateStore: Store, api: NhlApiClient, game: Game): Promise<void> {
+  if (isExhibition(game)) {
+    return;
+  }
+
+  const landing = await api.getLanding(game.id).then((r) => r.data, () => null);
+  const period = landing ? getIntermissionPeriod(landing) : null;
+  if (period === null) {
+    return;
+  }
+
+  const intermissionsStore = getStore({ name: INTERMISSIONS_STORE, consistency: "strong" });
+  const reports = await readIntermissions(intermissionsStore, game.id);
+  if (reports.some((r) => r.period === period)) {
+    return;
+  }
+
+  const saved = (await stateStore.get("intermissionState", { type: "json" })) as IntermissionState | null;
+  const state: IntermissionState = saved?.gameId === game.id && saved.period === period ? saved : { gameId: game.id, period, attempts: 0 };
+  if (state.attempts >= INTERMISSION_ATTEMPTS) {
+    return;
+  }
+
+  const pbp = await api.getPlayByPlay(game.id).then((r) => r.data, () => null);
+  // The landing can call the intermission before the period-end event lands
+  if (!pbp || !getEndedPeriods(pbp).includes(period)) {
+    return;
+  }
+
+  const context = buildIntermissionContext(game, pbp, period);
+  const { report, styleRulesHit } = await generateIntermissionReport(context);
+  await stateStore.setJSON("intermissionState", { ...state, attempts: state.attempts + 1 });
+  if (!report) {
+    console.warn(`No intermission report for game ${game.id} period ${period} (attempt ${state.attempts + 1} of ${INTERMISSION_ATTEMPTS})`);
+    return;
+  }
+
+  const stored: IntermissionReport = {
+    period,
+    periodLabel: context.periodLabel,
+    teamScore: context.teamScore,
+    opponentScore: context.opponentScore,
+    report,
+    persona: DEFAULT_PERSONA,
+    generatedAt: new Date().toISOString(),
+    styleRulesHit: styleRulesHit.length > 0 ? styleRulesHit : undefined,
+  };
+  const updated = [...reports, stored].sort((a, b) => a.period - b.period);
+  await intermissionsStore.setJSON(String(game.id), updated);
+  console.log(`Intermission report written for game ${game.id} period ${period}`);
+}
+
+async function readProcessingStates(store: Store): Promise<ProcessingStates> {
+  return ((await store.get("processingState", { type: "json" })) as ProcessingStates | null) ?? {};
+}
+
+// Re-read before writing so a slow generation doesn't clobber another game's entry.
+// Pruned on the way out, otherwise the blob keeps every game there's ever been.
+async function saveProcessingState(store: Store, state: GameProcessingState): Promise<void> {
+  const states = await readProcessingStates(store);
+  await store.setJSON("processingState", pruneProcessingStates({ ...states, [state.gameId]: state }, Date.now()));
+}
+
+function readRetryConfig(): RetryConfig {
+  try {
+    return getRetryConfig();
+  } catch (error) {
+    console.error("Invalid retry config, using defaults:", error);
+    return getRetryConfig({});
+  }
+}
+
+// One attempt at a finished game's recaps. Resolves true when something new was
+// stored and the site needs a rebuild.
+async function processGame(
+  stateStore: Store,
+  reviewsStore: Store,
+  loadArchive: ArchiveLoader,
+  api: NhlApiClient,
+  game: Game,
+  config: RetryConfig
+): Promise<boolean> {
+  const states = await readProcessingStates(stateStore);
+  let state = startAttempt(states[game.id] ?? newProcessingState(game), Date.now());
+  await saveProcessingState(stateStore, state);
+
+  const { context, failures, warnings } = await loadGameContext(game, api, { archive: await loadArchive() });
+
+  for (const warning of warnings) {
+    console.warn(`Schema warning for game ${game.id}: ${warning.path} ${warning.message}`);
+  }
+
+  // Nothing gets stored from partial data, a later attempt waits for complete, valid data
+  if (failures.length > 0) {
+    const summary = failures.map((f) => `${f.source}: ${f.message}`).join("; ");
+    state = recordFailure(state, "pending", `Incomplete data (${summary})`, Date.now(), config);
+    await saveProcessingState(stateStore, state);
+    console.error(`Incomplete data for game ${game.id}, attempt ${state.attempts} of ${config.maxAttempts} (${summary})`);
+    return false;
+  }
+
+  state = { ...state, status: "data-fetched" };
+  await saveProcessingState(stateStore, state);
+
+  // Only the first persona here, it's the game's main review and falls back to
+  // the template recap. The others follow in later runs, see writeExtraRecapIfDue.
+  const [mainPersona] = getConfiguredPersonas();
+  const { recap: main, attempt: mainAttempt } = await generateRecap(context, mainPersona);
+  if (!main) {
+    state = recordFailure(state, "generation-failed", `No usable ${mainPersona.id} review`, Date.now(), config);
+    await saveProcessingState(stateStore, state);
+    // The template recap from the first attempt is already up, another copy isn't news
+    if (await reviewsStore.get(String(game.id), { type: "json" })) {
+      console.warn(`Still no recap for game ${game.id}, now ${state.status} (attempt ${state.attempts} of ${config.maxAttempts})`);
+      return false;
+    }
+    console.warn(`Storing fallback recap for game ${game.id}, now ${state.status}`);
+  }
+  const review = main?.review ?? buildFallbackReview(context);
+
+  const { metadata } = context;
+  const intermissions = await readIntermissions(getStore({ name: INTERMISSIONS_STORE, consistency: "strong" }), game.id);
+  const storedGame: StoredGame = {
+    gameId: game.id,
+    gameDate: game.gameDate,
+    opponent: metadata.opponent,
+    opponentAbbrev: metadata.opponentAbbrev,
+    isLeafsHome: metadata.isLeafsHome,
+    didLose: metadata.didLose,
+    leafsScore: metadata.leafsScore,
+    opponentScore: metadata.opponentScore,
+    wasOT: metadata.wasOT,
+    wasSO: metadata.wasSO,
+    review,
+    persona: main?.persona,
+    promptVersion: main?.promptVersion,
+    fallback: main ? undefined : true,
+    ...mainAttempt,
+    recaps: main ? [main] : undefined,
+    timeline: context.timeline ?? undefined,
+    leadSummary: context.leadSummary ?? undefined,
+    playerImpact: context.playerImpact ?? undefined,
+    history: context.history ?? undefined,
+    intermissions: intermissions.length > 0 ? intermissions : undefined,
+  };
+
+  await reviewsStore.setJSON(String(game.id), storedGame);
+  if (main) {
+    await saveProcessingState(stateStore, markPublished(state));
+    await stateStore.setJSON("extraRecapState", { gameId: game.id, tried: [] } satisfies ExtraRecapState);
+    console.log(`Recap published for game ${game.id} (attempt ${state.attempts})`);
+  }
+  return true;
+}
+
+// Generates one persona's recap and fact-checks it. recap is null when there's
+// nothing worth storing.
+async function generateRecap(
+  context: GameContext,
+  persona: Persona
+): Promise<{ recap: StoredRecap | null; attempt: Pick<StoredRecap, "styleRulesHit" | "factCheck"> }> {
+  const gameId = context.game.id;
+  const { review: generated, styleRulesHit, promptVersion } = await generateReview(context, { persona });
+
+  // A recap with the wrong score or made-up scorers is worse than the template one
+  const factCheck = generated ? factCheckReview(generated, context) : undefined;
+  for (const issue of factCheck?.issues ?? []) {
+    console.warn(`Fact check ${issue.severity} for game ${gameId} (${persona.id}): ${issue.message} ("${issue.passage}")`);
+  }
+
+  const attempt = { styleRulesHit: styleRulesHit.length > 0 ? styleRulesHit : undefined, factCheck };
+  if (!generated || !factCheck?.passed) {
+    console.warn(`No usable ${persona.id} review for game ${gameId}`);
+    return { recap: null, attempt };
+  }
+  return { recap: { persona: persona.id, review: generated, promptVersion, ...attempt }, attempt };
+}
+
+// Adds the next configured persona's recap to the latest published game, one
+// per run so each generation gets the run to itself. Resolves true when a recap
+// was added and the site needs a rebuild.
+async function writeExtraRecapIfDue(
+  stateStore: Store,
+  reviewsStore: Store,
+  loadArchive: ArchiveLoader,
+  api: NhlApiClient
+): Promise<boolean> {
+  const state = (await stateStore.get("extraRecapState", { type: "json" })) as ExtraRecapState | null;
+  const persona = getConfiguredPersonas().slice(1).find((p) => !state?.tried.includes(p.id));
+  if (!state || !persona) {
+    return false;
+  }
+  await stateStore.setJSON("extraRecapState", { ...state, tried: [...state.tried, persona.id] } satisfies ExtraRecapState);
+
+  const stored = (await reviewsStore.get(String(state.gameId), { type: "json" })) as StoredGame | null;
+  if (!stored || stored.recaps?.some((r) => r.persona === persona.id)) {
+    return false;
+  }
+
+  let context: GameContext;
+  try {
+    const game = await getGame(state.gameId, api);
+    const loaded = await loadGameContext(game, api, { archive: await loadArchive() });
+    if (loaded.failures.length > 0) {
+      console.warn(`Incomplete data for game ${state.gameId}, skipping the ${persona.id} recap`);
+      return false;
+    }
+    context = loaded.context;
+  } catch (error) {
+    console.error(`Could not load game ${state.gameId} for the ${persona.id} recap:`, error);
+    return false;
+  }
+
+  const { recap } = await generateRecap(context, persona);
+  if (!recap) {
+    return false;
+  }
+
+  // Re-read in case the game was rewritten while this one was generating
+  const latest = ((await reviewsStore.get(String(state.gameId), { type: "json" })) as StoredGame | null) ?? stored;
+  await reviewsStore.setJSON(String(state.gameId), { ...latest, recaps: [...(latest.recaps ?? []), recap] });
+  console.log(`Added the ${persona.id} recap to game ${state.gameId}`);
+  return true;
+}
+
+// At most one slow generation per run: a retry that's due goes first, then the
+// next persona's recap for the latest game
+async function catchUpRecaps(
+  stateStore: Store,
+  reviewsStore: Store,
+  loadArchive: ArchiveLoader,
+  api: NhlApiClient,
+  config: RetryConfig
+): Promise<boolean> {
+  const states = await readProcessingStates(stateStore);
+  for (const dead of settleExhausted(states, config)) {
+    console.error(`Game ${dead.gameId} is out of attempts, moving it to dead-letter (${dead.lastError})`);
+    await saveProcessingState(stateStore, dead);
+  }
+  if (nextRetry(states, Date.now(), config)) {
+    return retryDueGame(stateStore, reviewsStore, loadArchive, api, config);
+  }
+  return writeExtraRecapIfDue(stateStore, reviewsStore, loadArchive, api);
+}
+
+// Gives the game that's waited longest another go once its backoff is up, one
+// per run since generation is the slow part. Resolves true when the site needs a rebuild.
+async function retryDueGame(
+  stateStore: Store,
+  reviewsStore: Store,
+  loadArchive: ArchiveLoader,
+  api: NhlApiClient,
+  config: RetryConfig
+): Promise<boolean> {
+  const due = nextRetry(await readProcessingStates(stateStore), Date.now(), config);
+  if (!due) {
+    return false;
+  }
+
+  console.log(`Retrying game ${due.gameId} (${due.status}, ${due.attempts} of ${config.maxAttempts} attempts used)`);
+  let game: Game;
+  try {
+    game = await getGame(due.gameId, api);
+  } catch (error) {
+    // Still counts as an attempt, a game the API has lost would otherwise be retried forever
+    const status = due.status === "generation-failed" ? "generation-failed" : "pending";
+    const failed = recordFailure(startAttempt(due, Date.now()), status, `Could not fetch game: ${error}`, Date.now(), config);
+    await saveProcessingState(stateStore, failed);
+    console.error(`Could not fetch game ${due.gameId} for retry, now ${failed.status}:`, error);
+    return false;
+  }
+  return processGame(stateStore, reviewsStore, loadArchive, api, game, config);
+}
 
 async function triggerRebuild(): Promise<void> {
+  // Replaying fixtures is for local runs, don't kick off a production deploy
+  if (getFixtureMode() === "replay") {
+    console.log("Fixture replay, skipping rebuild");
+    return;
+  }
   await fetch(BUILD_HOOK_URL, { method: "POST" });
 }
 
 export default async () => {
   const stateStore = getStore({ name: GAME_STATE_STORE, consistency: "strong" });
   const reviewsStore = getStore({ name: REVIEWS_STORE, consistency: "strong" });
+  const loadArchive = createArchiveLoader(reviewsStore);
+  // Fresh client per run so cached responses never outlive a single invocation
+  const api = createNhlApiClient();
+  const retryConfig = readRetryConfig();
 
   // Check if we should poll the API based on stored next game time
   const nextGameTime = await stateStore.get("nextGameTime", { type: "text" });
@@ -31,27 +463,43 @@ export default async () => {
       const hoursUntil = Math.floor(msUntilGame / (60 * 60 * 1000));
       const minsUntil = Math.floor((msUntilGame % (60 * 60 * 1000)) / (60 * 1000));
       console.log(`Game starts in ${hoursUntil}h ${minsUntil}m`);
+      const previewWritten = await writePreviewIfDue(stateStore, loadArchive, api, nextGameTime);
+      // The preview had this run's generation if it wrote one
+      const caughtUp = !previewWritten && await catchUpRecaps(stateStore, reviewsStore, loadArchive, api, retryConfig);
+      if (previewWritten || caughtUp) {
+        await triggerRebuild();
+      }
       return new Response("Game not started", { status: 200 });
     }
 
-    // Game started less than 90 minutes ago - unlikely to be over
+    // Game started less than 90 minutes ago - unlikely to be over, but it may be between periods
     if (msSinceStart < 90 * 60 * 1000) {
       const minsSinceStart = Math.floor(msSinceStart / (60 * 1000));
       console.log(`Game started ${minsSinceStart}m ago, waiting`);
+      const schedule = await getScheduleData(api);
+      if (schedule?.gameInProgress) {
+        await writeIntermissionIfDue(stateStore, api, schedule.gameInProgress);
+      }
       return new Response("Game in progress", { status: 200 });
     }
   }
 
   // Either no nextGameTime (bootstrap) or game might be over - poll API
-  const schedule = await getScheduleData();
+  const schedule = await getScheduleData(api);
 
   if (!schedule) {
     return new Response("Could not fetch schedule", { status: 200 });
   }
 
-  // Game still in progress - wait for it to finish
+  if (schedule.offSchedule) {
+    console.log(`Game ${schedule.offSchedule.id} is off schedule (${schedule.offSchedule.gameState}/${schedule.offSchedule.gameScheduleState ?? "-"}), moving on`);
+  }
+
+  // Game still in progress - wait for it to finish. Postponed and suspended
+  // games are never "in progress", so they can't block later games.
   if (schedule.gameInProgress) {
     console.log(`Game in progress (state: ${schedule.gameInProgress.gameState}), waiting`);
+    await writeIntermissionIfDue(stateStore, api, schedule.gameInProgress);
     return new Response("Game in progress", { status: 200 });
   }
 
@@ -70,43 +518,27 @@ export default async () => {
       await stateStore.set("nextGameTime", schedule.nextUpcoming.startTimeUTC);
     }
     console.log("No new games");
+    if (await catchUpRecaps(stateStore, reviewsStore, loadArchive, api, retryConfig)) {
+      await triggerRebuild();
+    }
     return new Response("No new games", { status: 200 });
   }
 
-  // New game to process - check if we already have a review
+  // New game to process - check if we already have a review, or a status from
+  // an earlier run that died before it got to lastGameId
   const existingReview = await reviewsStore.get(String(latestGame.id), { type: "json" });
+  const processingState = (await readProcessingStates(stateStore))[latestGame.id];
 
-  if (!existingReview) {
-    // Fetch game data
-    const { scoring, penalties, threeStars, leafsStats, opponentStats, leafsSkaters, leafsGoalies, opponentSkaters, opponentGoalies, playByPlayNarrative } = await getGameData(latestGame.id);
-
-    const isLeafsHome = latestGame.homeTeam.abbrev === "TOR";
-
-    // Generate review
-    const review = await generateReview(latestGame, scoring, penalties, threeStars, leafsStats, opponentStats, leafsSkaters, leafsGoalies, opponentSkaters, opponentGoalies, playByPlayNarrative);
-
-    if (review) {
-      const leafsScore = isLeafsHome ? latestGame.homeTeam.score ?? 0 : latestGame.awayTeam.score ?? 0;
-      const opponentScore = isLeafsHome ? latestGame.awayTeam.score ?? 0 : latestGame.homeTeam.score ?? 0;
-      const opponent = isLeafsHome
-        ? latestGame.awayTeam.placeName.default
-        : latestGame.homeTeam.placeName.default;
-
-      const storedGame: StoredGame = {
-        gameId: latestGame.id,
-        gameDate: latestGame.gameDate,
-        opponent,
-        isLeafsHome,
-        didLose: leafsScore < opponentScore,
-        leafsScore,
-        opponentScore,
-        wasOT: (scoring as ScoringPeriod[]).some((p) => p.periodDescriptor.periodType === "OT"),
-        wasSO: (scoring as ScoringPeriod[]).some((p) => p.periodDescriptor.periodType === "SO"),
-        review,
-      };
-
-      await reviewsStore.setJSON(String(latestGame.id), storedGame);
-    }
+  if (isExhibition(latestGame)) {
+    // Exhibition games don't get a recap, but the home page still shows them labelled
+    console.log(`Skipping review for exhibition game ${latestGame.id} (gameType ${latestGame.gameType})`);
+  } else if (processingState) {
+    // Its backoff and attempt limit apply, catchUpRecaps decides when it goes again
+    console.log(`Game ${latestGame.id} already ${processingState.status} after ${processingState.attempts} attempts, leaving it to the retries`);
+  } else if (!existingReview) {
+    // Whatever happens here the game's status says so, and catchUpRecaps picks it
+    // up later even once newer games have finished
+    await processGame(stateStore, reviewsStore, loadArchive, api, latestGame, retryConfig);
   }
 
   // Update state and trigger rebuild
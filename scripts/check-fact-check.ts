@@ -0,0 +1,119 @@
+// Runs the fact-checker over recaps of a made-up 3-2 game, so changes to the
+// score and scorer checks can be tried without the API or a model.
+// Usage: npx tsx scripts/check-fact-check.ts
+
+import assert from "node:assert/strict";
+import type { Goal, Game, ScoringPeriod } from "../lib/nhl-types";
+import { factCheckReview } from "../lib/fact-check";
+import type { HistoricalContext } from "../lib/history";
+
+const game = {
+  id: 2025020001,
+  gameDate: "2025-10-08",
+  startTimeUTC: "2025-10-08T23:00:00Z",
+  gameType: 2,
+  gameState: "OFF",
+  homeTeam: { abbrev: "TOR", placeName: { default: "Toronto" }, score: 3 },
+  awayTeam: { abbrev: "BOS", placeName: { default: "Boston" }, score: 2 },
+} as Game;
+
+const goal = (playerId: number, awayScore: number, homeScore: number) =>
+  ({ playerId, awayScore, homeScore }) as Goal;
+
+const scoring = [
+  { periodDescriptor: { number: 1, periodType: "REG" }, goals: [goal(1, 0, 1), goal(2, 1, 1)] },
+  { periodDescriptor: { number: 2, periodType: "REG" }, goals: [goal(1, 1, 2)] },
+  { periodDescriptor: { number: 3, periodType: "REG" }, goals: [goal(2, 2, 2), goal(3, 2, 3)] },
+] as ScoringPeriod[];
+
+const spot = (playerId: number, teamId: number, firstName: string, lastName: string) =>
+  ({ playerId, teamId, firstName: { default: firstName }, lastName: { default: lastName } });
+
+const data = {
+  game,
+  scoring,
+  rosterSpots: [
+    spot(1, 10, "Auston", "Matthews"),
+    spot(2, 6, "David", "Pastrnak"),
+    spot(3, 10, "William", "Nylander"),
+  ],
+  leafsSkaters: [],
+  leafsGoalies: [],
+  opponentSkaters: [],
+  opponentGoalies: [],
+} as unknown as Parameters<typeof factCheckReview>[1];
+
+const record = (wins: number, losses: number, otLosses: number) => ({
+  gamesPlayed: wins + losses + otLosses,
+  wins,
+  losses,
+  otLosses,
+  points: wins * 2 + otLosses,
+  goalsFor: 0,
+  goalsAgainst: 0,
+  goalDifferential: 0,
+});
+
+// What the v2 prompt would have shown, with a 1-4 loss to Boston the time before
+const history: HistoricalContext = {
+  streak: { kind: "W", count: 2 },
+  lastTen: record(6, 3, 1),
+  playoffs: false,
+  season: record(6, 3, 1),
+  headToHead: { since: "2025-10-01", record: record(1, 1, 0), streak: { kind: "W", count: 1 } },
+  previousMeeting: {
+    gameId: 2024020999,
+    gameDate: "2025-04-01",
+    opponentAbbrev: "BOS",
+    opponent: "Boston",
+    isHome: false,
+    playoffs: false,
+    result: "L",
+    teamScore: 1,
+    opponentScore: 4,
+    decidedIn: "REG",
+  },
+};
+
+const cases: { review: string; passed: boolean; history?: HistoricalContext }[] = [
+  { review: "The Leafs won 3-2 on a late Nylander goal.", passed: true },
+  { review: "Toronto beat the Bruins 3-2 after trailing 2-1.", passed: true },
+  // Not this game's final score, but not claiming to be either
+  { review: "Last time these teams met Boston won 4-1, so this one felt better.", passed: true },
+  { review: "The Leafs won 3-2 after going 1-4 on the power play.", passed: true },
+  { review: "The Leafs won 3-2 after going 1-for-4 on the power play.", passed: true },
+  { review: "The Leafs won 3-2 to improve to 7-3 in their last ten.", passed: true },
+  // Possessives and team names in front of the scorer
+  { review: "The Leafs won 3-2, the goal from Toronto's Auston Matthews was pretty.", passed: true },
+  { review: "Toronto's Matthews scored twice as the Leafs won 3-2.", passed: true },
+  { review: "The Leafs won 3-2 and Auston Matthews scored twice.", passed: true },
+  // Numbers straight from the history the prompt was given
+  { review: "Boston won 4-1 in Boston in April, and the Leafs won 3-2 here.", passed: true, history },
+  { review: "The Leafs won 3-2 and went 6-4 over their last ten.", passed: true, history },
+  // Wrong results
+  { review: "Boston won 4-1 in Boston in April, and the Leafs won 3-2 here.", passed: false },
+  { review: "The Leafs won 4-2 on a late Nylander goal.", passed: false },
+  { review: "A 5-1 win for the Leafs.", passed: false },
+  { review: "Marner scored the winner as the Leafs won 3-2.", passed: false },
+  { review: "The Leafs won 3-2, the goal from Toronto's Mitch Marner was pretty.", passed: false },
+  { review: "The Leafs won 3-2 and William Matthews scored twice.", passed: false },
+];
+
+let failed = 0;
+for (const { review, passed, history } of cases) {
+  const result = factCheckReview(review, { ...data, history });
+  try {
+    assert.equal(result.passed, passed);
+    console.log(`ok    ${review}`);
+  } catch {
+    failed++;
+    console.log(`FAIL  ${review}`);
+    for (const issue of result.issues) console.log(`      ${issue.severity} ${issue.kind}: ${issue.message}`);
+  }
+}
+
+if (failed > 0) {
+  console.error(`\n${failed} of ${cases.length} checks failed`);
+  process.exit(1);
+}
+console.log(`\nAll ${cases.length} checks passed`);
@@ -1,6 +1,9 @@
 import type { Game } from "../lib/nhl-types";
-import { getScheduleData, getGameData } from "../lib/nhl-api";
+import { getGame } from "../lib/nhl-api";
+import { loadGameContext } from "../lib/game-context";
+import { getAllGameReviews } from "../app/lib/storage";
 import { buildReviewPrompt } from "../lib/review";
+import { getConfiguredPromptTemplate } from "../lib/prompt-templates";
 
 async function main() {
   const gameId = parseInt(process.argv[2], 10);
@@ -11,52 +14,31 @@ async function main() {
 
   console.error(`Fetching data for game ${gameId}...`);
 
-  // Try to find game in the current season schedule
-  const schedule = await getScheduleData();
-  let game: Game | undefined;
-
-  if (schedule) {
-    const allCandidates = [schedule.latestCompleted, schedule.nextUpcoming, schedule.gameInProgress];
-    game = allCandidates.find((g) => g?.id === gameId) ?? undefined;
+  let game: Game;
+  try {
+    game = await getGame(gameId);
+  } catch (error) {
+    console.error(`Could not fetch game ${gameId}:`, error);
+    process.exit(1);
   }
 
-  // If not found in schedule, construct a minimal Game from the landing endpoint
-  if (!game) {
-    console.error("Game not in current schedule, fetching from landing endpoint...");
-    const landingRes = await fetch(`https://api-web.nhle.com/v1/gamecenter/${gameId}/landing`);
-    if (!landingRes.ok) {
-      console.error(`Could not fetch game ${gameId} from landing endpoint`);
-      process.exit(1);
-    }
-    const landing = await landingRes.json();
-    game = {
-      id: landing.id,
-      gameDate: landing.gameDate,
-      gameType: landing.gameType,
-      gameState: landing.gameState,
-      startTimeUTC: landing.startTimeUTC,
-      awayTeam: {
-        abbrev: landing.awayTeam.abbrev,
-        placeName: landing.awayTeam.placeName,
-        score: landing.awayTeam.score,
-      },
-      homeTeam: {
-        abbrev: landing.homeTeam.abbrev,
-        placeName: landing.homeTeam.placeName,
-        score: landing.homeTeam.score,
-      },
-    };
-  }
+  // The archive is only readable with NETLIFY_SITE_ID and NETLIFY_API_TOKEN, head-to-head falls back to this season
+  const archive = await getAllGameReviews();
+  const { context, failures, warnings } = await loadGameContext(game, undefined, { archive });
 
-  const { scoring, penalties, threeStars, leafsStats, opponentStats, leafsSkaters, leafsGoalies, opponentSkaters, opponentGoalies, playByPlayNarrative } = await getGameData(gameId);
+  for (const failure of failures) {
+    console.error(`Warning: ${failure.source} unavailable (${failure.message})`);
+  }
+  for (const warning of warnings) {
+    console.error(`Schema warning: ${warning.path} ${warning.message}`);
+  }
 
-  const { systemInstruction, prompt } = buildReviewPrompt(
-    game, scoring, penalties, threeStars, leafsStats, opponentStats,
-    leafsSkaters, leafsGoalies, opponentSkaters, opponentGoalies,
-    playByPlayNarrative
-  );
+  // PROMPT_VERSION picks an older template, for comparing prompt changes
+  const template = getConfiguredPromptTemplate();
+  const { systemInstruction, prompt } = buildReviewPrompt(context, { template });
 
-  console.log("=== SYSTEM INSTRUCTION ===");
+  console.log(`=== PROMPT VERSION ${template.version} ===`);
+  console.log("\n=== SYSTEM INSTRUCTION ===");
   console.log(systemInstruction);
   console.log("\n=== PROMPT ===");
   console.log(prompt);
@@ -0,0 +1,44 @@
+import path from "node:path";
+import { createNhlApiClient } from "../lib/nhl-api";
+import { createRecordingFetch } from "../lib/fixtures";
+import { getTeamConfig } from "../lib/team";
+
+// Saves every NHL API response needed to process one game. Replay it with:
+//   NHL_FIXTURES=replay NHL_FIXTURES_DIR=fixtures/<gameId> npm run dump-prompt <gameId>
+async function main() {
+  const gameId = parseInt(process.argv[2], 10);
+  if (!gameId) {
+    console.error("Usage: npx tsx scripts/record-fixtures.ts <gameId> [dir]");
+    process.exit(1);
+  }
+
+  const dir = path.resolve(process.argv[3] ?? path.join("fixtures", String(gameId)));
+  const client = createNhlApiClient({ fetch: createRecordingFetch(dir) });
+
+  console.log(`Recording game ${gameId} into ${dir}...`);
+
+  const results = await Promise.allSettled([
+    client.getSchedule(getTeamConfig().abbrev),
+    client.getLanding(gameId),
+    client.getBoxscore(gameId),
+    client.getPlayByPlay(gameId),
+  ]);
+
+  const labels = ["schedule", "landing", "boxscore", "play-by-play"];
+  let failed = false;
+  results.forEach((result, idx) => {
+    if (result.status === "fulfilled") {
+      const { warnings } = result.value;
+      console.log(`  ${labels[idx]}: ok${warnings.length ? ` (${warnings.length} schema warnings)` : ""}`);
+    } else {
+      failed = true;
+      console.error(`  ${labels[idx]}: ${result.reason instanceof Error ? result.reason.message : result.reason}`);
+    }
+  });
+
+  if (failed) {
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,7 +1,12 @@
 import "dotenv/config";
 import type { Game } from "../lib/nhl-types";
-import { getScheduleData, getGameData } from "../lib/nhl-api";
+import { getGame } from "../lib/nhl-api";
+import { loadGameContext } from "../lib/game-context";
+import { getAllGameReviews } from "../app/lib/storage";
 import { generateReview } from "../lib/review";
+import { createReviewGenerator } from "../lib/review-generator";
+import type { ReviewGenerator } from "../lib/review-generator";
+import { factCheckReview } from "../lib/fact-check";
 
 async function main() {
   const gameId = parseInt(process.argv[2], 10);
@@ -10,60 +15,55 @@ async function main() {
     process.exit(1);
   }
 
-  if (!process.env.GEMINI_API_KEY) {
-    console.error("GEMINI_API_KEY not found. Add it to a .env file.");
+  // REVIEW_PROVIDER=openai with OPENAI_BASE_URL, or REVIEW_PROVIDER=fake, runs without a Google key
+  let generator: ReviewGenerator;
+  try {
+    generator = createReviewGenerator();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
     process.exit(1);
   }
 
   console.log(`Fetching data for game ${gameId}...`);
 
-  // Try to find game in the current season schedule
-  const schedule = await getScheduleData();
-  let game: Game | undefined;
-
-  if (schedule) {
-    const allCandidates = [schedule.latestCompleted, schedule.nextUpcoming, schedule.gameInProgress];
-    game = allCandidates.find((g) => g?.id === gameId) ?? undefined;
+  let game: Game;
+  try {
+    game = await getGame(gameId);
+  } catch (error) {
+    console.error(`Could not fetch game ${gameId}:`, error);
+    process.exit(1);
   }
 
-  // If not found in schedule, construct a minimal Game from the landing endpoint
-  if (!game) {
-    console.log("Game not in current schedule, fetching from landing endpoint...");
-    const landingRes = await fetch(`https://api-web.nhle.com/v1/gamecenter/${gameId}/landing`);
-    if (!landingRes.ok) {
-      console.error(`Could not fetch game ${gameId} from landing endpoint`);
-      process.exit(1);
-    }
-    const landing = await landingRes.json();
-    game = {
-      id: landing.id,
-      gameDate: landing.gameDate,
-      gameType: landing.gameType,
-      gameState: landing.gameState,
-      startTimeUTC: landing.startTimeUTC,
-      awayTeam: {
-        abbrev: landing.awayTeam.abbrev,
-        placeName: landing.awayTeam.placeName,
-        score: landing.awayTeam.score,
-      },
-      homeTeam: {
-        abbrev: landing.homeTeam.abbrev,
-        placeName: landing.homeTeam.placeName,
-        score: landing.homeTeam.score,
-      },
-    };
+  // The archive is only readable with NETLIFY_SITE_ID and NETLIFY_API_TOKEN, head-to-head falls back to this season
+  const archive = await getAllGameReviews();
+  const { context, failures, warnings } = await loadGameContext(game, undefined, { archive });
+
+  for (const failure of failures) {
+    console.error(`Warning: ${failure.source} unavailable (${failure.message})`);
+  }
+  for (const warning of warnings) {
+    console.error(`Schema warning: ${warning.path} ${warning.message}`);
   }
 
-  const { scoring, penalties, threeStars, leafsStats, opponentStats, leafsSkaters, leafsGoalies, opponentSkaters, opponentGoalies, playByPlayNarrative } = await getGameData(gameId);
+  console.log(`Generating review with ${generator.name}...\n`);
 
-  console.log("Generating review...\n");
+  const { review, styleRulesHit, rewrites, promptVersion } = await generateReview(context, { generator });
 
-  const review = await generateReview(game, scoring, penalties, threeStars, leafsStats, opponentStats, leafsSkaters, leafsGoalies, opponentSkaters, opponentGoalies, playByPlayNarrative);
+  if (styleRulesHit.length > 0) {
+    console.error(`Style rules hit: ${styleRulesHit.join(", ")} (${rewrites} rewrites)`);
+  }
 
   if (review) {
+    console.log(`Prompt ${promptVersion}`);
     console.log("=".repeat(60));
     console.log(review);
     console.log("=".repeat(60));
+
+    const factCheck = factCheckReview(review, context);
+    console.log(`\nFact check ${factCheck.passed ? "passed" : "FAILED"}`);
+    for (const issue of factCheck.issues) {
+      console.log(`  ${issue.severity}: ${issue.message} ("${issue.passage}")`);
+    }
   } else {
     console.error("Failed to generate review");
     process.exit(1);